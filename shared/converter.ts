@@ -0,0 +1,1272 @@
+// Thread-to-markdown conversion shared by the web app and the Worker.
+//
+// Conversion is two steps: parseThread() turns the raw listing JSON that
+// Reddit returns for `<thread>.json` into a typed Thread, and
+// threadToMarkdown() renders that Thread. Neither step touches the DOM or
+// the network, so both run unchanged in the browser and in workerd.
+
+import {
+  describeHistory,
+  isCommentSort,
+  MAX_COMMENT_CONTEXT,
+  MAX_COMMENT_LIMIT,
+  type CommentSort,
+  type HistoryUrl,
+} from './thread-url';
+import {
+  decodeEntities,
+  escapeHtmlLike,
+  redditToCommonMark,
+  redditToPlainText,
+  startsWithBlock,
+} from './reddit-markdown';
+
+// --- Options ---
+
+/** Details that can be shown after a comment's author, in display order */
+export const METADATA_FIELDS = ['badges', 'score', 'date', 'edited', 'permalink'] as const;
+export type MetadataField = typeof METADATA_FIELDS[number];
+
+/**
+ * How comments are laid out: nested blockquotes, nested bullet lists, a
+ * heading per comment, one flat list with reply markers, or collapsible
+ * HTML `<details>` blocks.
+ */
+export const COMMENT_LAYOUTS = ['quote', 'bullets', 'headings', 'flat', 'details'] as const;
+export type CommentLayout = typeof COMMENT_LAYOUTS[number];
+
+/** An extra `key: value` line for the YAML front matter; the value is written as given */
+export interface FrontMatterField {
+  key: string;
+  value: string;
+}
+
+/** Conversion options shared by the UI and the Worker's markdown endpoint */
+export interface ConvertOptions {
+  /** Comment order Reddit returns; null uses the thread's default */
+  sort: CommentSort | null;
+  /** Number of comments Reddit returns (up to 500); null uses its default */
+  limit: number | null;
+  /** Parent comments shown above a permalinked comment (up to 8); null keeps the URL's */
+  context: number | null;
+  /** Resolve "load more comments" stubs before rendering */
+  fullThread: boolean;
+  layout: CommentLayout;
+  /** Start the markdown with YAML front matter describing the thread */
+  frontMatter: boolean;
+  /** Extra front matter keys, e.g. tags; these replace built-in keys of the same name */
+  frontMatterFields: FrontMatterField[];
+  /** Details shown on each comment's author line */
+  metadata: MetadataField[];
+  /** Drop comments (and their replies) scoring below this */
+  minScore: number | null;
+  /** Reply levels kept below top-level comments; 0 keeps top-level only */
+  maxDepth: number | null;
+  /** Keep only the first N top-level comments, in thread order */
+  topLevelLimit: number | null;
+  /** Drop comments (and their replies) by these users, case-insensitive */
+  excludeAuthors: string[];
+  excludeBots: boolean;
+  /** Drop deleted and removed comments that have no remaining replies */
+  excludeDeleted: boolean;
+}
+
+export const DEFAULT_OPTIONS: ConvertOptions = {
+  sort: null,
+  limit: null,
+  context: null,
+  fullThread: false,
+  layout: 'quote',
+  frontMatter: false,
+  frontMatterFields: [],
+  metadata: [],
+  minScore: null,
+  maxDepth: null,
+  topLevelLimit: null,
+  excludeAuthors: [],
+  excludeBots: false,
+  excludeDeleted: false,
+};
+
+function isMetadataField(value: string): value is MetadataField {
+  return (METADATA_FIELDS as readonly string[]).includes(value);
+}
+
+export function isCommentLayout(value: string): value is CommentLayout {
+  return (COMMENT_LAYOUTS as readonly string[]).includes(value);
+}
+
+function intParam(params: URLSearchParams, name: string, min: number): number | null {
+  const value = params.get(name);
+  if (value === null || !/^-?\d+$/.test(value)) return null;
+  return Math.max(min, parseInt(value, 10));
+}
+
+/** Split a comma/space-separated list of usernames, dropping any `u/` prefix */
+export function parseAuthorList(value: string): string[] {
+  return value
+    .split(/[\s,]+/)
+    .map(name => name.replace(/^\/?u\//i, ''))
+    .filter(Boolean);
+}
+
+const FRONT_MATTER_KEY_RE = /^[A-Za-z_][\w-]*$/;
+
+/**
+ * Parse `key: value` lines for the front matter. Lines without a colon,
+ * with a key YAML would need quoting, or with a line break of their own (which
+ * could end the front matter early) are skipped; a repeated key keeps the
+ * last value.
+ */
+export function parseFrontMatterFields(lines: string[]): FrontMatterField[] {
+  const fields = new Map<string, string>();
+  for (const line of lines) {
+    const colon = line.indexOf(':');
+    if (colon < 0 || /[\r\n]/.test(line)) continue;
+    const key = line.slice(0, colon).trim();
+    const value = line.slice(colon + 1).trim();
+    if (!FRONT_MATTER_KEY_RE.test(key)) continue;
+    fields.delete(key);
+    fields.set(key, value);
+  }
+  return [...fields].map(([key, value]) => ({ key, value }));
+}
+
+/** Read options from query parameters, e.g. `?sort=top&meta=score,date&min_score=5` */
+export function optionsFromParams(params: URLSearchParams): ConvertOptions {
+  const sort = params.get('sort') || '';
+  const limit = intParam(params, 'limit', 1);
+  const context = intParam(params, 'context', 0);
+  const layout = params.get('layout') || '';
+  return {
+    sort: isCommentSort(sort) ? sort : null,
+    limit: limit === null ? null : Math.min(limit, MAX_COMMENT_LIMIT),
+    context: context === null ? null : Math.min(context, MAX_COMMENT_CONTEXT),
+    fullThread: params.get('full') === '1',
+    layout: isCommentLayout(layout) ? layout : DEFAULT_OPTIONS.layout,
+    frontMatter: params.get('front') === '1',
+    frontMatterFields: parseFrontMatterFields(params.getAll('fm')),
+    metadata: (params.get('meta') || '').split(',').filter(isMetadataField),
+    minScore: intParam(params, 'min_score', -Infinity),
+    maxDepth: intParam(params, 'max_depth', 0),
+    topLevelLimit: intParam(params, 'top', 1),
+    excludeAuthors: parseAuthorList(params.get('exclude') || ''),
+    excludeBots: params.get('no_bots') === '1',
+    excludeDeleted: params.get('no_deleted') === '1',
+  };
+}
+
+/** Query parameters for the options that differ from the defaults */
+export function optionsToParams(options: ConvertOptions): URLSearchParams {
+  const params = new URLSearchParams();
+  if (options.sort) params.set('sort', options.sort);
+  if (options.limit !== null) params.set('limit', String(options.limit));
+  if (options.context !== null) params.set('context', String(options.context));
+  if (options.fullThread) params.set('full', '1');
+  if (options.layout !== DEFAULT_OPTIONS.layout) params.set('layout', options.layout);
+  if (options.frontMatter) params.set('front', '1');
+  for (const { key, value } of options.frontMatterFields) params.append('fm', `${key}: ${value}`);
+  if (options.metadata.length > 0) params.set('meta', options.metadata.join(','));
+  if (options.minScore !== null) params.set('min_score', String(options.minScore));
+  if (options.maxDepth !== null) params.set('max_depth', String(options.maxDepth));
+  if (options.topLevelLimit !== null) params.set('top', String(options.topLevelLimit));
+  if (options.excludeAuthors.length > 0) params.set('exclude', options.excludeAuthors.join(','));
+  if (options.excludeBots) params.set('no_bots', '1');
+  if (options.excludeDeleted) params.set('no_deleted', '1');
+  return params;
+}
+
+// --- Thread model ---
+
+export interface PostImage {
+  url: string;
+  caption: string;
+}
+
+export interface PostVideo {
+  /** Reddit's progressive MP4, playable without the HLS/DASH manifests */
+  url: string;
+  /** Seconds; 0 when unknown */
+  duration: number;
+}
+
+export interface PollOption {
+  text: string;
+  /** Null while voting is still open */
+  votes: number | null;
+}
+
+export interface Poll {
+  options: PollOption[];
+  totalVotes: number;
+  votingEndsUtc: number;
+}
+
+export interface Post {
+  id: string;
+  title: string;
+  author: string;
+  subreddit: string;
+  selftext: string;
+  score: number;
+  numComments: number;
+  createdUtc: number;
+  permalink: string;
+  /** Where a link post points; self posts link to themselves */
+  url: string;
+  isSelf: boolean;
+  domain: string;
+  /** A single image post, or a gallery's images in order */
+  images: PostImage[];
+  video: PostVideo | null;
+  poll: Poll | null;
+  /** The original post, when this one is a crosspost */
+  crosspost: Post | null;
+}
+
+export interface Comment {
+  kind: 'comment';
+  id: string;
+  parentId: string;
+  author: string;
+  body: string;
+  score: number;
+  scoreHidden: boolean;
+  createdUtc: number;
+  edited: boolean;
+  permalink: string;
+  /** Written by the post's author */
+  isSubmitter: boolean;
+  stickied: boolean;
+  distinguished: 'moderator' | 'admin' | null;
+  depth: number;
+  replies: CommentNode[];
+}
+
+/** A collapsed "load more comments" / "continue this thread" placeholder */
+export interface MoreStub {
+  kind: 'more';
+  id: string;
+  parentId: string;
+  count: number;
+  childIds: string[];
+  depth: number;
+}
+
+export type CommentNode = Comment | MoreStub;
+
+export interface Thread {
+  post: Post;
+  comments: CommentNode[];
+  /** Set when the thread was narrowed to one comment's branch by focusThread() */
+  focus?: { commentId: string; parents: number };
+  /** Set when the thread was narrowed to picked comments by selectComments() */
+  selection?: { selected: number; parents: number };
+  /** When the JSON was fetched from Reddit, in epoch seconds; set by whoever fetched it */
+  retrievedUtc?: number;
+}
+
+// --- Parsing ---
+
+type RawObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is RawObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function str(value: unknown, fallback = ''): string {
+  return typeof value === 'string' ? value : fallback;
+}
+
+/** A text field Reddit sends HTML-escaped: titles, bodies, captions */
+function text(value: unknown): string {
+  return decodeEntities(str(value));
+}
+
+function num(value: unknown, fallback = 0): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+}
+
+/** Children of a Reddit `Listing` wrapper, or [] if it isn't one */
+function listingChildren(listing: unknown): unknown[] {
+  if (!isObject(listing) || !isObject(listing.data)) return [];
+  const children = listing.data.children;
+  return Array.isArray(children) ? children : [];
+}
+
+const IMAGE_URL_RE = /\.(jpe?g|png|gif|webp)(\?.*)?$/i;
+
+// URLs inside media_metadata are HTML-escaped
+function unescapeUrl(url: string): string {
+  return url.replace(/&amp;/g, '&');
+}
+
+function parseImages(data: RawObject): PostImage[] {
+  // Galleries keep order and captions in gallery_data, URLs in media_metadata
+  const items = isObject(data.gallery_data) && Array.isArray(data.gallery_data.items)
+    ? data.gallery_data.items
+    : [];
+  if (items.length > 0) {
+    const metadata = isObject(data.media_metadata) ? data.media_metadata : {};
+    const images: PostImage[] = [];
+    for (const item of items) {
+      if (!isObject(item)) continue;
+      const media = metadata[str(item.media_id)];
+      if (!isObject(media) || !isObject(media.s)) continue;
+      const url = str(media.s.u) || str(media.s.gif);
+      if (url) images.push({ url: unescapeUrl(url), caption: text(item.caption) });
+    }
+    return images;
+  }
+
+  const url = str(data.url);
+  if (data.post_hint === 'image' || IMAGE_URL_RE.test(url)) return [{ url, caption: '' }];
+  return [];
+}
+
+function parseVideo(data: RawObject): PostVideo | null {
+  const media = isObject(data.secure_media) ? data.secure_media : data.media;
+  if (!isObject(media) || !isObject(media.reddit_video)) return null;
+  const url = str(media.reddit_video.fallback_url);
+  return url ? { url, duration: num(media.reddit_video.duration) } : null;
+}
+
+function parsePoll(data: RawObject): Poll | null {
+  const poll = data.poll_data;
+  if (!isObject(poll) || !Array.isArray(poll.options)) return null;
+  return {
+    options: poll.options.filter(isObject).map(option => ({
+      text: text(option.text),
+      votes: typeof option.vote_count === 'number' ? option.vote_count : null,
+    })),
+    totalVotes: num(poll.total_vote_count),
+    // Milliseconds, unlike every other timestamp Reddit sends
+    votingEndsUtc: num(poll.voting_end_timestamp) / 1000,
+  };
+}
+
+function parsePost(data: RawObject): Post {
+  const parents = Array.isArray(data.crosspost_parent_list) ? data.crosspost_parent_list : [];
+  return {
+    id: str(data.id),
+    title: text(data.title),
+    author: str(data.author, '[deleted]'),
+    subreddit: str(data.subreddit),
+    selftext: text(data.selftext),
+    score: num(data.score),
+    numComments: num(data.num_comments),
+    createdUtc: num(data.created_utc),
+    permalink: str(data.permalink),
+    url: str(data.url),
+    isSelf: data.is_self === true,
+    domain: str(data.domain),
+    images: parseImages(data),
+    video: parseVideo(data),
+    poll: parsePoll(data),
+    crosspost: isObject(parents[0]) ? parsePost(parents[0]) : null,
+  };
+}
+
+/** Parse one `t1` or `more` child; replies are parsed recursively */
+export function parseCommentNode(child: unknown, depth: number): CommentNode | null {
+  if (!isObject(child) || !isObject(child.data)) return null;
+  const data = child.data;
+
+  if (child.kind === 'more') {
+    const ids = Array.isArray(data.children) ? data.children : [];
+    return {
+      kind: 'more',
+      id: str(data.id),
+      parentId: str(data.parent_id),
+      count: num(data.count),
+      childIds: ids.filter((id): id is string => typeof id === 'string'),
+      depth: num(data.depth, depth),
+    };
+  }
+
+  if (child.kind !== 't1') return null;
+
+  return {
+    kind: 'comment',
+    id: str(data.id),
+    parentId: str(data.parent_id),
+    author: str(data.author, '[deleted]'),
+    body: text(data.body),
+    score: num(data.score),
+    scoreHidden: data.score_hidden === true,
+    createdUtc: num(data.created_utc),
+    // `edited` is false or the edit's timestamp
+    edited: data.edited !== false && data.edited != null,
+    permalink: str(data.permalink),
+    isSubmitter: data.is_submitter === true,
+    stickied: data.stickied === true,
+    distinguished: data.distinguished === 'moderator' || data.distinguished === 'admin'
+      ? data.distinguished
+      : null,
+    depth,
+    // Reddit sends `replies: ""` when a comment has none
+    replies: parseNodes(data.replies, depth + 1),
+  };
+}
+
+function parseNodes(listing: unknown, depth: number): CommentNode[] {
+  const nodes: CommentNode[] = [];
+  for (const child of listingChildren(listing)) {
+    const node = parseCommentNode(child, depth);
+    if (node) nodes.push(node);
+  }
+  return nodes;
+}
+
+/**
+ * Parse the two-listing array Reddit returns for a thread's `.json` URL.
+ * Returns null when the payload doesn't look like a thread.
+ */
+export function parseThread(data: unknown): Thread | null {
+  if (!Array.isArray(data)) return null;
+
+  const first = listingChildren(data[0])[0];
+  if (!isObject(first) || !isObject(first.data)) return null;
+
+  return {
+    post: parsePost(first.data),
+    comments: parseNodes(data[1], 0),
+  };
+}
+
+// --- Stubs ---
+
+/** Comments and "continue this thread" branches still hidden behind stubs */
+export function countOmitted(nodes: CommentNode[]): { comments: number; threads: number } {
+  let comments = 0;
+  let threads = 0;
+  for (const node of nodes) {
+    if (node.kind === 'more') {
+      if (isContinueThread(node)) threads++;
+      else comments += Math.max(node.count, node.childIds.length);
+    } else {
+      const nested = countOmitted(node.replies);
+      comments += nested.comments;
+      threads += nested.threads;
+    }
+  }
+  return { comments, threads };
+}
+
+/** "Continue this thread" stubs carry no ids; the branch lives at the parent's permalink */
+export function isContinueThread(stub: MoreStub): boolean {
+  return stub.childIds.length === 0;
+}
+
+// --- Focus ---
+
+/** The comments from a top-level comment down to `commentId`, or null if it isn't loaded */
+function commentPath(nodes: CommentNode[], commentId: string): Comment[] | null {
+  for (const node of nodes) {
+    if (node.kind !== 'comment') continue;
+    if (node.id === commentId) return [node];
+    const below = commentPath(node.replies, commentId);
+    if (below) return [node, ...below];
+  }
+  return null;
+}
+
+export function findComment(nodes: CommentNode[], commentId: string): Comment | null {
+  const path = commentPath(nodes, commentId);
+  return path ? path[path.length - 1] : null;
+}
+
+function withDepth(node: CommentNode, depth: number): CommentNode {
+  if (node.kind === 'more') return { ...node, depth };
+  return { ...node, depth, replies: node.replies.map(reply => withDepth(reply, depth + 1)) };
+}
+
+/**
+ * Narrow a thread to one comment's subtree, with up to `context` parent
+ * comments above it (and none of their other replies). The topmost comment
+ * kept is re-based to depth 0. Returns null if the comment isn't in the thread.
+ */
+export function focusThread(thread: Thread, commentId: string, context: number): Thread | null {
+  const path = commentPath(thread.comments, commentId);
+  if (!path) return null;
+
+  const chain = path.slice(-(context + 1));
+  let branch: Comment = chain[chain.length - 1];
+  for (let i = chain.length - 2; i >= 0; i--) {
+    branch = { ...chain[i], replies: [branch] };
+  }
+
+  return {
+    ...thread,
+    comments: [withDepth(branch, 0)],
+    focus: { commentId, parents: chain.length - 1 },
+  };
+}
+
+/**
+ * Narrow a thread to the picked comments and the comments above them that
+ * they reply to. Other replies, including a picked comment's own, and
+ * "load more" stubs are dropped; depths are unchanged.
+ */
+export function selectComments(thread: Thread, commentIds: ReadonlySet<string>): Thread {
+  let selected = 0;
+  let parents = 0;
+
+  const keep = (nodes: CommentNode[]): CommentNode[] => {
+    const kept: CommentNode[] = [];
+    for (const node of nodes) {
+      if (node.kind !== 'comment') continue;
+      const replies = keep(node.replies);
+      if (commentIds.has(node.id)) selected++;
+      else if (replies.length > 0) parents++;
+      else continue;
+      kept.push({ ...node, replies });
+    }
+    return kept;
+  };
+
+  const comments = keep(thread.comments);
+  return { ...thread, comments, selection: { selected, parents } };
+}
+
+// --- Filtering ---
+
+/** Comments dropped by each filter, replies included */
+export interface FilterStats {
+  deleted: number;
+  authors: number;
+  bots: number;
+  score: number;
+  depth: number;
+  topLevel: number;
+}
+
+// Bots whose names don't end in "bot" as a word of its own
+const KNOWN_BOTS = new Set([
+  'automoderator', 'totesmessenger', 'savevideo', 'b0trank', 'nice-scores',
+  'sneakpeekbot', 'remindmebot', 'repostsleuthbot', 'wikisummarizerbot', 'haikusbot',
+]);
+
+// "bot" as its own word: some_bot, Some-Bot or SomeBot, but not Talbot or Cabot
+const BOT_SEGMENT_RE = /(?:^|[-_])bot$/i;
+const CAMEL_CASE_BOT_RE = /[a-z0-9]Bot$/;
+
+export function isBot(author: string): boolean {
+  return KNOWN_BOTS.has(author.toLowerCase()) || BOT_SEGMENT_RE.test(author) || CAMEL_CASE_BOT_RE.test(author);
+}
+
+export function isDeleted(comment: Comment): boolean {
+  return comment.author === '[deleted]'
+    || /^\[(deleted|removed)\]$/.test(comment.body)
+    || comment.body.startsWith('[ Removed by Reddit');
+}
+
+function subtreeSize(node: CommentNode): number {
+  if (node.kind === 'more') return 0;
+  return node.replies.reduce((n, reply) => n + subtreeSize(reply), 1);
+}
+
+function hasComments(nodes: CommentNode[]): boolean {
+  return nodes.some(node => node.kind === 'comment');
+}
+
+/**
+ * Apply the filter options. A removed comment takes its replies with it,
+ * except for deleted comments, which stay while they still have replies
+ * (as on Reddit) so those replies keep their context.
+ */
+export function filterThread(
+  thread: Thread,
+  options: ConvertOptions,
+): { thread: Thread; stats: FilterStats } {
+  const stats: FilterStats = { deleted: 0, authors: 0, bots: 0, score: 0, depth: 0, topLevel: 0 };
+  const excluded = new Set(options.excludeAuthors.map(name => name.toLowerCase()));
+
+  const removalReason = (comment: Comment): keyof FilterStats | null => {
+    if (excluded.has(comment.author.toLowerCase())) return 'authors';
+    if (options.excludeBots && isBot(comment.author)) return 'bots';
+    if (options.minScore !== null && !comment.scoreHidden && comment.score < options.minScore) return 'score';
+    return null;
+  };
+
+  const filterNodes = (nodes: CommentNode[]): CommentNode[] => {
+    const kept: CommentNode[] = [];
+    for (const node of nodes) {
+      if (options.maxDepth !== null && node.depth > options.maxDepth) {
+        stats.depth += subtreeSize(node);
+        continue;
+      }
+      if (node.kind === 'more') {
+        kept.push(node);
+        continue;
+      }
+
+      const reason = removalReason(node);
+      if (reason) {
+        stats[reason] += subtreeSize(node);
+        continue;
+      }
+
+      const replies = filterNodes(node.replies);
+      if (options.excludeDeleted && isDeleted(node) && !hasComments(replies)) {
+        stats.deleted++;
+        continue;
+      }
+      kept.push({ ...node, replies });
+    }
+    return kept;
+  };
+
+  let comments = filterNodes(thread.comments);
+
+  if (options.topLevelLimit !== null) {
+    const limited: CommentNode[] = [];
+    let count = 0;
+    for (const node of comments) {
+      if (count >= options.topLevelLimit) {
+        // Stubs past the limit would only add to the "not included" count
+        stats.topLevel += subtreeSize(node);
+        continue;
+      }
+      if (node.kind === 'comment') count++;
+      limited.push(node);
+    }
+    comments = limited;
+  }
+
+  return { thread: { ...thread, comments }, stats };
+}
+
+// --- Rendering ---
+
+function plural(n: number, word: string): string {
+  return `${n.toLocaleString('en-US')} ${word}${n === 1 ? '' : 's'}`;
+}
+
+function filteredNote(stats: FilterStats, options: ConvertOptions): string | null {
+  const parts: string[] = [];
+  if (stats.deleted > 0) parts.push(`${stats.deleted} deleted or removed`);
+  if (stats.authors > 0) parts.push(`${stats.authors} by excluded authors`);
+  if (stats.bots > 0) parts.push(`${stats.bots} by bots`);
+  if (stats.score > 0) parts.push(`${stats.score} below ${plural(options.minScore ?? 0, 'point')}`);
+  if (stats.depth > 0) {
+    parts.push(options.maxDepth === 0
+      ? `${stats.depth} replies`
+      : `${stats.depth} nested more than ${plural(options.maxDepth ?? 0, 'level')} deep`);
+  }
+  if (stats.topLevel > 0) {
+    parts.push(`${stats.topLevel} past the limit of ${plural(options.topLevelLimit ?? 0, 'top-level comment')}`);
+  }
+  if (parts.length === 0) return null;
+
+  const total = Object.values(stats).reduce((a, b) => a + b, 0);
+  return `Filtered out ${plural(total, 'comment')}: ${parts.join(', ')}.`;
+}
+
+function omittedNote(thread: Thread): string | null {
+  const { comments, threads } = countOmitted(thread.comments);
+  const parts: string[] = [];
+  if (comments > 0) parts.push(plural(comments, 'more comment'));
+  if (threads > 0) parts.push(plural(threads, 'continued thread'));
+  if (parts.length === 0) return null;
+  return `Not included: ${parts.join(', ')}.`;
+}
+
+/** Plain-text notes on what a rendered thread leaves out */
+function threadNotes(thread: Thread, stats: FilterStats, options: ConvertOptions): string[] {
+  return [filteredNote(stats, options), omittedNote(thread)].filter((note): note is string => note !== null);
+}
+
+/** What part of the thread is shown, when it's been narrowed by a permalink or a selection */
+function scopeNote(thread: Thread): string | null {
+  const scope = thread.selection ?? thread.focus;
+  if (!scope) return null;
+  const context = scope.parents > 0 ? `, with ${plural(scope.parents, 'parent comment')} for context` : '';
+  const shown = thread.selection ? plural(thread.selection.selected, 'selected comment') : 'A single comment thread';
+  return `${shown}${context}.`;
+}
+
+function renderFocus(thread: Thread): string | null {
+  const note = scopeNote(thread);
+  if (!note) return null;
+  const link = thread.post.permalink ? ` [View the full discussion](https://www.reddit.com${thread.post.permalink})` : '';
+  return `*${note}${link}*`;
+}
+
+function formatUtc(seconds: number): string {
+  return new Date(seconds * 1000).toISOString().slice(0, 16).replace('T', ' ') + ' UTC';
+}
+
+function badges(comment: Comment): string[] {
+  const out: string[] = [];
+  if (comment.isSubmitter) out.push('OP');
+  if (comment.distinguished === 'moderator') out.push('MOD');
+  if (comment.distinguished === 'admin') out.push('ADMIN');
+  if (comment.stickied) out.push('STICKIED');
+  return out;
+}
+
+/** One ` · `-separated detail after a comment's author; links carry an href */
+export interface MetadataPart {
+  text: string;
+  href?: string;
+}
+
+export function metadataParts(comment: Comment, fields: MetadataField[]): MetadataPart[] {
+  const parts: MetadataPart[] = [];
+  for (const field of METADATA_FIELDS) {
+    if (!fields.includes(field)) continue;
+    switch (field) {
+      case 'badges':
+        parts.push(...badges(comment).map(text => ({ text })));
+        break;
+      case 'score':
+        parts.push({ text: comment.scoreHidden ? 'score hidden' : plural(comment.score, 'point') });
+        break;
+      case 'date':
+        if (comment.createdUtc) parts.push({ text: formatUtc(comment.createdUtc) });
+        break;
+      case 'edited':
+        if (comment.edited) parts.push({ text: 'edited' });
+        break;
+      case 'permalink':
+        if (comment.permalink) parts.push({ text: 'permalink', href: `https://www.reddit.com${comment.permalink}` });
+        break;
+    }
+  }
+  return parts;
+}
+
+/** Details after the author as markdown, e.g. ` · OP · 12 points` */
+function renderMetadata(parts: MetadataPart[]): string {
+  return parts.map(part => ` · ${part.href ? `[${part.text}](${part.href})` : part.text}`).join('');
+}
+
+/** The same details as HTML, for `<summary>` where markdown isn't parsed */
+function renderMetadataHtml(parts: MetadataPart[]): string {
+  return parts.map(part => ` · ${part.href ? `<a href="${part.href}">${part.text}</a>` : part.text}`).join('');
+}
+
+function formatDuration(seconds: number): string {
+  const s = Math.round(seconds);
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+}
+
+function quote(markdown: string): string {
+  return markdown.split('\n').map(line => (line ? `> ${line}` : '>')).join('\n');
+}
+
+/** Plain text (titles, captions) made safe inside markdown link text or emphasis */
+function inlineText(plain: string): string {
+  return escapeHtmlLike(plain).replace(/[[\]*_]/g, '\\$&');
+}
+
+function renderImages(images: PostImage[]): string[] {
+  return images.map((image, i) => {
+    const alt = images.length === 1 ? 'Image' : `Image ${i + 1} of ${images.length}`;
+    return image.caption ? `![${alt}](${image.url})\n*${inlineText(image.caption)}*` : `![${alt}](${image.url})`;
+  });
+}
+
+function renderPoll(poll: Poll): string {
+  const open = poll.options.some(option => option.votes === null);
+  const status = open && poll.votingEndsUtc
+    ? `voting ends ${formatUtc(poll.votingEndsUtc)}`
+    : plural(poll.totalVotes, 'vote');
+  const options = poll.options.map(option =>
+    option.votes === null
+      ? `- ${inlineText(option.text)}`
+      : `- ${inlineText(option.text)} \u2014 ${plural(option.votes, 'vote')}`,
+  );
+  return [`**Poll** · ${status}`, ...options].join('\n');
+}
+
+function linkDomain(post: Post): string {
+  if (post.domain) return post.domain;
+  try {
+    return new URL(post.url).hostname;
+  } catch {
+    return post.url;
+  }
+}
+
+/** The original of a crosspost as a quoted block, with its own header */
+function renderCrosspost(original: Post): string {
+  const blocks = [
+    `**Crossposted from r/${original.subreddit}:** [${inlineText(original.title)}](https://www.reddit.com${original.permalink})`,
+    `*Posted by u/${original.author}*`,
+    ...renderPostContent(original),
+  ];
+  return quote(blocks.join('\n\n'));
+}
+
+/**
+ * Markdown blocks for a post's body: its media or outbound link, the
+ * self text, then any poll.
+ */
+function renderPostContent(post: Post): string[] {
+  const blocks: string[] = [];
+  if (post.crosspost) {
+    blocks.push(renderCrosspost(post.crosspost));
+  } else if (post.images.length > 0) {
+    blocks.push(...renderImages(post.images));
+  } else if (post.video) {
+    const duration = post.video.duration ? ` (${formatDuration(post.video.duration)})` : '';
+    blocks.push(`[Video${duration}](${post.video.url})`);
+  } else if (!post.isSelf && post.url) {
+    blocks.push(`**Link:** [${linkDomain(post)}](${post.url})`);
+  }
+  if (post.selftext) blocks.push(redditToCommonMark(post.selftext));
+  if (post.poll) blocks.push(renderPoll(post.poll));
+  return blocks;
+}
+
+/**
+ * A comment's body as CommonMark lines. Quotes, lists, code and tables get
+ * a blank line first so they can't run into the author line above them.
+ */
+function bodyLines(comment: Comment): string[] {
+  const body = redditToCommonMark(comment.body);
+  const lines = body.split('\n');
+  if (startsWithBlock(body)) lines.unshift('');
+  return lines;
+}
+
+function renderReplies(comment: Comment, options: ConvertOptions): string {
+  let md = '';
+  for (const reply of comment.replies) {
+    if (reply.kind === 'comment') md += renderComment(reply, comment, options);
+  }
+  return md;
+}
+
+/** Blockquotes, one `> ` per level */
+function renderQuoted(comment: Comment, options: ConvertOptions): string {
+  const indent = '> '.repeat(comment.depth);
+  const meta = renderMetadata(metadataParts(comment, options.metadata));
+  let md = `${indent}**u/${comment.author}**${meta}\n`;
+  md += `${bodyLines(comment).map(line => `${indent}${line}`).join('\n')}\n\n`;
+  return md + renderReplies(comment, options);
+}
+
+/** Nested bullet lists; the body is indented to sit inside its list item */
+function renderBulleted(comment: Comment, options: ConvertOptions): string {
+  const indent = '  '.repeat(comment.depth);
+  const meta = renderMetadata(metadataParts(comment, options.metadata));
+  let md = `${indent}- **u/${comment.author}**${meta}\n`;
+  md += `${bodyLines(comment).map(line => (line ? `${indent}  ${line}` : '')).join('\n')}\n\n`;
+  return md + renderReplies(comment, options);
+}
+
+/** `##` for top-level comments, one more `#` per level; past `######` the level is spelled out */
+function renderHeaded(comment: Comment, options: ConvertOptions): string {
+  const level = comment.depth + 2;
+  const past = level > 6 ? ` (level ${comment.depth + 1})` : '';
+  const meta = renderMetadata(metadataParts(comment, options.metadata));
+  let md = `${'#'.repeat(Math.min(level, 6))} u/${comment.author}${past}${meta}\n\n`;
+  md += `${redditToCommonMark(comment.body)}\n\n`;
+  return md + renderReplies(comment, options);
+}
+
+/** Every comment at the top level, in thread order, replies marked with their parent's author */
+function renderFlat(comment: Comment, parent: Comment | null, options: ConvertOptions): string {
+  const marker = parent ? [{ text: `\u21b3 reply to u/${parent.author}` }] : [];
+  const meta = renderMetadata([...marker, ...metadataParts(comment, options.metadata)]);
+  let md = `**u/${comment.author}**${meta}\n`;
+  md += `${bodyLines(comment).join('\n')}\n\n`;
+  return md + renderReplies(comment, options);
+}
+
+/** Collapsible `<details>` blocks, open by default; markdown inside needs blank lines around it */
+function renderDetails(comment: Comment, options: ConvertOptions): string {
+  const meta = renderMetadataHtml(metadataParts(comment, options.metadata));
+  let md = '<details open>\n';
+  md += `<summary><strong>u/${comment.author}</strong>${meta}</summary>\n\n`;
+  md += `${redditToCommonMark(comment.body)}\n\n`;
+  md += renderReplies(comment, options);
+  return `${md}</details>\n\n`;
+}
+
+function renderComment(comment: Comment, parent: Comment | null, options: ConvertOptions): string {
+  switch (options.layout) {
+    case 'bullets':
+      return renderBulleted(comment, options);
+    case 'headings':
+      return renderHeaded(comment, options);
+    case 'flat':
+      return renderFlat(comment, parent, options);
+    case 'details':
+      return renderDetails(comment, options);
+    default:
+      return renderQuoted(comment, options);
+  }
+}
+
+// Plain YAML scalars that don't need quotes: no spaces, no leading indicator
+const YAML_PLAIN_RE = /^[A-Za-z][\w./:%?=&+~-]*$/;
+const YAML_RESERVED = new Set(['true', 'false', 'null', 'yes', 'no', 'on', 'off', 'y', 'n']);
+
+/** A string as a YAML scalar, double-quoted (JSON is valid YAML) unless it's plainly safe */
+function yamlString(value: string): string {
+  return YAML_PLAIN_RE.test(value) && !YAML_RESERVED.has(value.toLowerCase()) ? value : JSON.stringify(value);
+}
+
+function isoSeconds(seconds: number): string {
+  return new Date(seconds * 1000).toISOString().replace('.000Z', 'Z');
+}
+
+/** YAML front matter from the post's fields, then the extra fields as written */
+function renderFrontMatter(thread: Thread, options: ConvertOptions): string {
+  const { post } = thread;
+  const fields: [string, string][] = [['title', yamlString(post.title)]];
+  if (post.permalink) fields.push(['source', yamlString(`https://www.reddit.com${post.permalink}`)]);
+  if (post.subreddit) fields.push(['subreddit', yamlString(post.subreddit)]);
+  fields.push(['author', yamlString(post.author)]);
+  if (post.createdUtc) fields.push(['posted', isoSeconds(post.createdUtc)]);
+  fields.push(['score', String(post.score)], ['comments', String(post.numComments)]);
+  if (thread.retrievedUtc) fields.push(['retrieved', isoSeconds(thread.retrievedUtc)]);
+
+  const extra = new Set(options.frontMatterFields.map(field => field.key));
+  const lines = [
+    ...fields.filter(([key]) => !extra.has(key)).map(([key, value]) => `${key}: ${value}`),
+    ...options.frontMatterFields.map(({ key, value }) => `${key}: ${value}`),
+  ];
+  return `---\n${lines.join('\n')}\n---\n\n`;
+}
+
+/**
+ * Render a parsed thread as markdown, comments laid out as `options.layout`.
+ * Filters are applied here; a closing note says what was left out.
+ */
+export function threadToMarkdown(thread: Thread, options: ConvertOptions = DEFAULT_OPTIONS): string {
+  const { thread: filtered, stats } = filterThread(thread, options);
+  const { post } = filtered;
+  let md = options.frontMatter ? renderFrontMatter(filtered, options) : '';
+  md += `# ${escapeHtmlLike(post.title)}\n\n`;
+  md += `*Posted by u/${post.author}*\n\n`;
+  for (const block of renderPostContent(post)) md += `${block}\n\n`;
+  md += '---\n\n';
+
+  const focus = renderFocus(filtered);
+  if (focus) md += `${focus}\n\n`;
+
+  for (const node of filtered.comments) {
+    if (node.kind === 'comment') md += renderComment(node, null, options);
+  }
+
+  const notes = threadNotes(filtered, stats, options).map(note => `*${note}*`);
+  if (notes.length > 0) md += `---\n\n${notes.join('\n\n')}\n`;
+  return md;
+}
+
+// --- Digests ---
+
+export const DEFAULT_DIGEST_THREADS = 10;
+export const MAX_DIGEST_THREADS = 25;
+export const DEFAULT_DIGEST_COMMENTS = 3;
+export const MAX_DIGEST_COMMENTS = 10;
+
+/** Threads from a subreddit listing, loaded for one document */
+export interface Digest {
+  /** e.g. "Top this week in r/programming" */
+  title: string;
+  subreddit: string;
+  /** The listing's page on Reddit */
+  source: string;
+  threads: Thread[];
+  /** Posts in the listing whose threads couldn't be loaded */
+  failed: number;
+  /** Top-level comments shown for each thread */
+  comments: number;
+}
+
+/** `threads` and `comments` from a query string, capped; missing values take the defaults */
+export function digestSizeFromParams(params: URLSearchParams): { threads: number; comments: number } {
+  const threads = intParam(params, 'threads', 1) ?? DEFAULT_DIGEST_THREADS;
+  const comments = intParam(params, 'comments', 0) ?? DEFAULT_DIGEST_COMMENTS;
+  return { threads: Math.min(threads, MAX_DIGEST_THREADS), comments: Math.min(comments, MAX_DIGEST_COMMENTS) };
+}
+
+/** GitHub's anchor for a heading: lowercase, punctuation dropped, spaces as hyphens */
+function headingAnchor(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{M}\p{N}\p{Pc} -]/gu, '').replace(/ /g, '-');
+}
+
+function renderDigestThread(thread: Thread, index: number, digest: Digest, options: ConvertOptions): string {
+  const { post } = thread;
+  // Stickied comments are mostly moderator boilerplate; the rest are cut to the top few, without replies
+  const unstickied = thread.comments.filter(node => node.kind === 'comment' && !node.stickied);
+  const topLevelLimit = Math.min(digest.comments, options.topLevelLimit ?? digest.comments);
+  const { thread: filtered } = filterThread({ ...thread, comments: unstickied }, { ...options, maxDepth: 0, topLevelLimit });
+
+  const source = post.permalink ? ` · [View on Reddit](https://www.reddit.com${post.permalink})` : '';
+  let md = `## ${index}. ${escapeHtmlLike(post.title)}\n\n`;
+  md += `*Posted by u/${post.author} · ${plural(post.score, 'point')} · ${plural(post.numComments, 'comment')}*${source}\n\n`;
+  for (const block of renderPostContent(post)) md += `${block}\n\n`;
+  for (const node of filtered.comments) {
+    if (node.kind !== 'comment') continue;
+    // Under the thread's `##`, the headings layout starts a level down
+    md += renderComment(options.layout === 'headings' ? { ...node, depth: 1 } : node, null, options);
+  }
+  return md;
+}
+
+/**
+ * Render a digest as one markdown document: a table of contents, then each
+ * thread's post and its top comments. Filters apply to the comments.
+ */
+export function digestToMarkdown(digest: Digest, options: ConvertOptions = DEFAULT_OPTIONS): string {
+  const each = digest.comments > 0 ? `, with up to ${plural(digest.comments, 'top comment')} each` : '';
+  let md = `# ${escapeHtmlLike(digest.title)}\n\n`;
+  md += `*${plural(digest.threads.length, 'thread')} from [r/${digest.subreddit}](${digest.source})${each}.*\n\n`;
+
+  if (digest.threads.length > 0) {
+    md += '## Contents\n\n';
+    digest.threads.forEach(({ post }, i) => {
+      const anchor = headingAnchor(`${i + 1}. ${post.title}`);
+      md += `${i + 1}. [${escapeHtmlLike(post.title)}](#${anchor}) · u/${post.author} · ${plural(post.score, 'point')}\n`;
+    });
+    md += '\n';
+  }
+
+  digest.threads.forEach((thread, i) => {
+    md += `---\n\n${renderDigestThread(thread, i + 1, digest, options)}`;
+  });
+
+  if (digest.failed > 0) md += `---\n\n*${plural(digest.failed, 'thread')} could not be loaded.*\n`;
+  return md;
+}
+
+// --- User history ---
+
+export const DEFAULT_HISTORY_PAGES = 5;
+export const MAX_HISTORY_PAGES = 10;
+
+/** A comment from a user's history, with the thread it was left on */
+export interface HistoryComment {
+  kind: 'comment';
+  comment: Comment;
+  threadTitle: string;
+  /** The thread's full URL, as Reddit sends it */
+  threadUrl: string;
+  subreddit: string;
+}
+
+export interface HistoryPost {
+  kind: 'post';
+  post: Post;
+}
+
+export type HistoryItem = HistoryComment | HistoryPost;
+
+/** A user's comments or posts, loaded page by page */
+export interface UserHistory extends HistoryUrl {
+  items: HistoryItem[];
+  pages: number;
+  /** Why older items weren't loaded: the page cap, the size cap or a failed request; null when all were */
+  stoppedBy: 'pages' | 'size' | 'error' | null;
+}
+
+/** `pages` from a query string, capped; missing values take the default */
+export function historyPagesFromParams(params: URLSearchParams): number {
+  return Math.min(intParam(params, 'pages', 1) ?? DEFAULT_HISTORY_PAGES, MAX_HISTORY_PAGES);
+}
+
+/**
+ * Parse one page of `/user/<name>/comments.json` or `/submitted.json`, with
+ * the cursor for the next page. Returns null when it isn't a listing.
+ */
+export function parseHistoryPage(data: unknown): { items: HistoryItem[]; after: string | null } | null {
+  if (!isObject(data) || !isObject(data.data) || !Array.isArray(data.data.children)) return null;
+
+  const items: HistoryItem[] = [];
+  for (const child of data.data.children) {
+    if (!isObject(child) || !isObject(child.data)) continue;
+    if (child.kind === 't3') {
+      items.push({ kind: 'post', post: parsePost(child.data) });
+      continue;
+    }
+    const comment = parseCommentNode(child, 0);
+    if (comment?.kind !== 'comment') continue;
+    items.push({
+      kind: 'comment',
+      comment,
+      threadTitle: text(child.data.link_title),
+      threadUrl: str(child.data.link_permalink),
+      subreddit: str(child.data.subreddit),
+    });
+  }
+  return { items, after: str(data.data.after) || null };
+}
+
+function renderHistoryItem(item: HistoryItem): string {
+  if (item.kind === 'post') {
+    const { post } = item;
+    const date = post.createdUtc ? ` · ${formatUtc(post.createdUtc)}` : '';
+    const source = post.permalink ? ` · [View on Reddit](https://www.reddit.com${post.permalink})` : '';
+    let md = `## ${escapeHtmlLike(post.title)}\n\n`;
+    md += `*r/${post.subreddit}${date} · ${plural(post.score, 'point')} · ${plural(post.numComments, 'comment')}*${source}\n\n`;
+    for (const block of renderPostContent(post)) md += `${block}\n\n`;
+    return md;
+  }
+
+  const { comment } = item;
+  const date = comment.createdUtc ? ` · ${formatUtc(comment.createdUtc)}` : '';
+  const score = comment.scoreHidden ? 'score hidden' : plural(comment.score, 'point');
+  const links = [
+    comment.permalink && `[Comment](https://www.reddit.com${comment.permalink})`,
+    item.threadUrl && `[Thread](${item.threadUrl})`,
+  ].filter(Boolean);
+  let md = `## ${escapeHtmlLike(item.threadTitle)}\n\n`;
+  md += `*r/${item.subreddit}${date} · ${score}*${links.map(link => ` · ${link}`).join('')}\n\n`;
+  md += `${redditToCommonMark(comment.body)}\n\n`;
+  return md;
+}
+
+function historyNote(history: UserHistory): string | null {
+  const older = `older ${history.kind === 'comments' ? 'comments' : 'posts'} weren't loaded`;
+  const after = plural(history.pages, 'page');
+  switch (history.stoppedBy) {
+    case 'pages':
+      return `Stopped after ${after}; ${older}.`;
+    case 'size':
+      return `Stopped after ${after} at the size limit; ${older}.`;
+    case 'error':
+      return `Reddit failed after ${after}; ${older}.`;
+    default:
+      return null;
+  }
+}
+
+/** Render a user's history: each comment or post under its thread's title, with where and when */
+export function historyToMarkdown(history: UserHistory): string {
+  const profile = `https://www.reddit.com/user/${history.username}/${history.kind}/`;
+  const noun = history.kind === 'comments' ? 'comment' : 'post';
+  let md = `# ${describeHistory(history)}\n\n`;
+  md += `*${plural(history.items.length, noun)} from [u/${history.username}](${profile}).*\n\n`;
+  for (const item of history.items) md += `---\n\n${renderHistoryItem(item)}`;
+
+  const note = historyNote(history);
+  if (note) md += `---\n\n*${note}*\n`;
+  return md;
+}
+
+// --- Obsidian ---
+
+/** A wiki link to the user's note; deleted accounts have no note to link */
+function userLink(author: string): string {
+  return author === '[deleted]' ? `u/${author}` : `[[u/${author}]]`;
+}
+
+/** A comment as a foldable `[!quote]` callout with its replies nested inside */
+function renderCallout(comment: Comment, options: ConvertOptions): string {
+  const meta = renderMetadata(metadataParts(comment, options.metadata));
+  const lines = [`[!quote]+ ${userLink(comment.author)}${meta}`, ...redditToCommonMark(comment.body).split('\n')];
+  for (const reply of comment.replies) {
+    if (reply.kind === 'comment') lines.push('', renderCallout(reply, options));
+  }
+  return quote(lines.join('\n'));
+}
+
+/**
+ * Render a thread as Obsidian-flavoured markdown: comments are nested
+ * callouts, and authors and the subreddit are `[[wiki links]]`.
+ */
+export function threadToObsidian(thread: Thread, options: ConvertOptions = DEFAULT_OPTIONS): string {
+  const { thread: filtered, stats } = filterThread(thread, options);
+  const { post } = filtered;
+  const subreddit = post.subreddit ? ` in [[r/${post.subreddit}]]` : '';
+  const source = post.permalink ? ` · [View on Reddit](https://www.reddit.com${post.permalink})` : '';
+  let md = options.frontMatter ? renderFrontMatter(filtered, options) : '';
+  md += `# ${escapeHtmlLike(post.title)}\n\n`;
+  md += `*Posted by ${userLink(post.author)}${subreddit}*${source}\n\n`;
+  for (const block of renderPostContent(post)) md += `${block}\n\n`;
+  md += '---\n\n';
+
+  const focus = renderFocus(filtered);
+  if (focus) md += `${focus}\n\n`;
+
+  for (const node of filtered.comments) {
+    if (node.kind === 'comment') md += `${renderCallout(node, options)}\n\n`;
+  }
+
+  for (const note of threadNotes(filtered, stats, options)) md += `> [!info]\n> ${note}\n\n`;
+  return md;
+}
+
+// --- Plain text ---
+
+const TEXT_RULE = '-'.repeat(60);
+
+function indentLines(text: string, indent: string): string {
+  return text.split('\n').map(line => (line ? `${indent}${line}` : '')).join('\n');
+}
+
+/** A post's body as plain-text blocks, in the same order as renderPostContent() */
+function postContentText(post: Post): string[] {
+  const blocks: string[] = [];
+  if (post.crosspost) {
+    const original = post.crosspost;
+    const header = `Crossposted from r/${original.subreddit}: ${original.title}\nPosted by u/${original.author}`;
+    blocks.push(indentLines([header, ...postContentText(original)].join('\n\n'), '  '));
+  } else if (post.images.length > 0) {
+    blocks.push(post.images.map((image, i) => {
+      const label = post.images.length === 1 ? 'Image' : `Image ${i + 1} of ${post.images.length}`;
+      return `${label}: ${image.url}${image.caption ? ` \u2014 ${image.caption}` : ''}`;
+    }).join('\n'));
+  } else if (post.video) {
+    const duration = post.video.duration ? ` (${formatDuration(post.video.duration)})` : '';
+    blocks.push(`Video${duration}: ${post.video.url}`);
+  } else if (!post.isSelf && post.url) {
+    blocks.push(`Link: ${post.url}`);
+  }
+  if (post.selftext) blocks.push(redditToPlainText(post.selftext));
+  if (post.poll) {
+    const open = post.poll.options.some(option => option.votes === null);
+    const status = open && post.poll.votingEndsUtc
+      ? `voting ends ${formatUtc(post.poll.votingEndsUtc)}`
+      : plural(post.poll.totalVotes, 'vote');
+    const options = post.poll.options.map(option =>
+      option.votes === null ? `- ${option.text}` : `- ${option.text} \u2014 ${plural(option.votes, 'vote')}`,
+    );
+    blocks.push([`Poll \u00b7 ${status}`, ...options].join('\n'));
+  }
+  return blocks;
+}
+
+/** Author line at four spaces per level, body two spaces further in */
+function renderCommentText(comment: Comment, options: ConvertOptions): string {
+  const indent = '    '.repeat(comment.depth);
+  const meta = metadataParts(comment, options.metadata)
+    .map(part => ` \u00b7 ${part.href ?? part.text}`)
+    .join('');
+  let text = `${indent}u/${comment.author}${meta}\n`;
+  text += `${indentLines(redditToPlainText(comment.body), `${indent}  `)}\n\n`;
+  for (const reply of comment.replies) {
+    if (reply.kind === 'comment') text += renderCommentText(reply, options);
+  }
+  return text;
+}
+
+/** Render a thread as a plain-text transcript, replies indented under their parents */
+export function threadToText(thread: Thread, options: ConvertOptions = DEFAULT_OPTIONS): string {
+  const { thread: filtered, stats } = filterThread(thread, options);
+  const { post } = filtered;
+  let text = `${post.title}\n`;
+  text += `Posted by u/${post.author}${post.subreddit ? ` in r/${post.subreddit}` : ''}\n`;
+  if (post.permalink) text += `https://www.reddit.com${post.permalink}\n`;
+  text += '\n';
+  for (const block of postContentText(post)) text += `${block}\n\n`;
+  text += `${TEXT_RULE}\n\n`;
+
+  const scope = scopeNote(filtered);
+  if (scope) text += `${scope}\n\n`;
+
+  for (const node of filtered.comments) {
+    if (node.kind === 'comment') text += renderCommentText(node, options);
+  }
+
+  const notes = threadNotes(filtered, stats, options);
+  if (notes.length > 0) text += `${TEXT_RULE}\n\n${notes.join('\n')}\n`;
+  return text;
+}
@@ -0,0 +1,183 @@
+// Resolve "load more comments" and "continue this thread" stubs.
+//
+// The network is injected through ExpandSource so the browser can go through
+// the Worker proxy while the Worker itself calls Reddit directly.
+
+import {
+  countOmitted,
+  isContinueThread,
+  parseCommentNode,
+  parseThread,
+  type Comment,
+  type CommentNode,
+  type MoreStub,
+  type Thread,
+} from './converter';
+
+/** Reddit's cap on ids per `/api/morechildren` call */
+export const MORE_BATCH_SIZE = 100;
+
+/**
+ * Reddit requests a client can make through the Worker at once: the default
+ * size of its rate-limit bucket, which the app keeps a full thread's
+ * expansion under.
+ */
+export const DEFAULT_RATE_LIMIT_BURST = 30;
+
+export interface ExpandSource {
+  /** Raw JSON from `/api/morechildren` for up to MORE_BATCH_SIZE comment ids */
+  moreChildren(linkId: string, ids: string[]): Promise<unknown>;
+  /** Raw JSON from a comment permalink's `.json`, e.g. `/r/x/comments/abc/slug/def/` */
+  commentThread(permalink: string): Promise<unknown>;
+}
+
+export interface ExpandProgress {
+  requests: number;
+  loaded: number;
+  remaining: number;
+}
+
+export interface ExpandOptions {
+  maxRequests: number;
+  onProgress?: (progress: ExpandProgress) => void;
+}
+
+export interface ExpandResult {
+  thread: Thread;
+  /** Set when a request failed and expansion stopped early */
+  error?: unknown;
+}
+
+interface Pending {
+  stub: MoreStub;
+  /** The array holding the stub: the parent's replies or the top-level list */
+  siblings: CommentNode[];
+  parent: Comment | null;
+}
+
+function setDepth(node: CommentNode, depth: number): void {
+  node.depth = depth;
+  if (node.kind === 'comment') {
+    for (const reply of node.replies) setDepth(reply, depth + 1);
+  }
+}
+
+function collectStubs(nodes: CommentNode[], parent: Comment | null, out: Pending[]): void {
+  for (const node of nodes) {
+    if (node.kind === 'more') out.push({ stub: node, siblings: nodes, parent });
+    else collectStubs(node.replies, node, out);
+  }
+}
+
+function countComments(nodes: CommentNode[]): number {
+  let n = 0;
+  for (const node of nodes) {
+    if (node.kind === 'comment') n += 1 + countComments(node.replies);
+  }
+  return n;
+}
+
+/**
+ * Rebuild the flat `things` list from `/api/morechildren` into a tree.
+ * Things whose parent isn't in the batch become roots at the stub's depth.
+ */
+function treeFromMoreChildren(data: unknown, depth: number): CommentNode[] {
+  const things = (data as { json?: { data?: { things?: unknown } } })?.json?.data?.things;
+  if (!Array.isArray(things)) return [];
+
+  const roots: CommentNode[] = [];
+  const byName = new Map<string, Comment>();
+  for (const thing of things) {
+    const node = parseCommentNode(thing, depth);
+    if (!node) continue;
+
+    const parent = byName.get(node.parentId);
+    if (parent) {
+      setDepth(node, parent.depth + 1);
+      parent.replies.push(node);
+    } else {
+      roots.push(node);
+    }
+    if (node.kind === 'comment') byName.set(`t1_${node.id}`, node);
+  }
+  return roots;
+}
+
+/** Replies below the focused comment of a permalink response, re-based to `depth` */
+function repliesFromCommentThread(data: unknown, parent: Comment): CommentNode[] {
+  const focused = parseThread(data)?.comments.find(
+    (node): node is Comment => node.kind === 'comment' && node.id === parent.id,
+  );
+  if (!focused) return [];
+  for (const reply of focused.replies) setDepth(reply, parent.depth + 1);
+  return focused.replies;
+}
+
+/**
+ * Resolve stubs shallowest-first until none are left or `maxRequests` is used up.
+ * Resolved comments are spliced in where their stub was, so order is kept.
+ * Stubs that weren't reached stay in the tree and are reported as omitted.
+ */
+export async function expandThread(
+  thread: Thread,
+  source: ExpandSource,
+  options: ExpandOptions,
+): Promise<ExpandResult> {
+  const expanded: Thread = structuredClone(thread);
+  const linkId = `t3_${expanded.post.id}`;
+  const queue: Pending[] = [];
+  collectStubs(expanded.comments, null, queue);
+  const byDepth = (a: Pending, b: Pending) => a.stub.depth - b.stub.depth;
+  queue.sort(byDepth);
+
+  let requests = 0;
+  let loaded = 0;
+  const report = () => options.onProgress?.({
+    requests,
+    loaded,
+    remaining: countOmitted(expanded.comments).comments,
+  });
+
+  while (queue.length > 0 && requests < options.maxRequests) {
+    const { stub, siblings, parent } = queue.shift()!;
+    let resolved: CommentNode[];
+
+    try {
+      if (isContinueThread(stub)) {
+        // A continued thread needs its parent comment's permalink
+        if (!parent) continue;
+        requests++;
+        resolved = repliesFromCommentThread(await source.commentThread(parent.permalink), parent);
+      } else {
+        const batch = stub.childIds.slice(0, MORE_BATCH_SIZE);
+        requests++;
+        resolved = treeFromMoreChildren(await source.moreChildren(linkId, batch), stub.depth);
+
+        // Whatever didn't fit in this batch stays behind as a smaller stub
+        const rest = stub.childIds.slice(MORE_BATCH_SIZE);
+        if (rest.length > 0) {
+          const remainder: MoreStub = {
+            ...stub,
+            childIds: rest,
+            count: Math.max(stub.count - countComments(resolved), rest.length),
+          };
+          resolved.push(remainder);
+        }
+      }
+    } catch (error) {
+      return { thread: expanded, error };
+    }
+
+    siblings.splice(siblings.indexOf(stub), 1, ...resolved);
+    for (const node of resolved) {
+      if (node.kind === 'more') queue.push({ stub: node, siblings, parent });
+      else collectStubs(node.replies, node, queue);
+    }
+    queue.sort(byDepth);
+
+    loaded += countComments(resolved);
+    report();
+  }
+
+  return { thread: expanded };
+}
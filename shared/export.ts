@@ -0,0 +1,188 @@
+// Export formats for a converted thread, and the normalised JSON tree.
+//
+// Markdown, Obsidian markdown and plain text are rendered by the converter;
+// HTML needs a markdown renderer, so the web app builds it from the
+// markdown output.
+
+import {
+  filterThread,
+  type Comment,
+  type CommentNode,
+  type ConvertOptions,
+  type Post,
+  type Thread,
+} from './converter';
+
+export const EXPORT_FORMATS = ['markdown', 'html', 'text', 'json', 'obsidian'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+const EXTENSIONS: Record<ExportFormat, string> = {
+  markdown: 'md',
+  html: 'html',
+  text: 'txt',
+  json: 'json',
+  obsidian: 'md',
+};
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  markdown: 'text/markdown;charset=utf-8',
+  html: 'text/html;charset=utf-8',
+  text: 'text/plain;charset=utf-8',
+  json: 'application/json;charset=utf-8',
+  obsidian: 'text/markdown;charset=utf-8',
+};
+
+const MAX_SLUG_LENGTH = 80;
+
+/** A lowercase ASCII file name stem from a thread title, e.g. `what-made-recursion-click` */
+export function slugify(title: string): string {
+  const slug = title
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  // Cut at a word boundary when the title is long
+  const cut = slug.length > MAX_SLUG_LENGTH ? slug.slice(0, MAX_SLUG_LENGTH).replace(/-[^-]*$/, '') : slug;
+  return cut || 'reddit-thread';
+}
+
+export function exportFilename(title: string, format: ExportFormat): string {
+  return `${slugify(title)}.${EXTENSIONS[format]}`;
+}
+
+export function exportMimeType(format: ExportFormat): string {
+  return MIME_TYPES[format];
+}
+
+// --- JSON ---
+
+/** Reddit's epoch seconds as ISO 8601; null when Reddit didn't send one */
+function isoDate(seconds: number): string | null {
+  return seconds ? new Date(seconds * 1000).toISOString() : null;
+}
+
+function redditUrl(permalink: string): string | null {
+  return permalink ? `https://www.reddit.com${permalink}` : null;
+}
+
+export interface JsonPost {
+  id: string;
+  title: string;
+  author: string;
+  subreddit: string;
+  url: string | null;
+  /** Where a link post points; null for self posts */
+  link: string | null;
+  created: string | null;
+  score: number;
+  commentCount: number;
+  body: string;
+  images: { url: string; caption: string }[];
+  video: { url: string; duration: number } | null;
+  poll: {
+    options: { text: string; votes: number | null }[];
+    totalVotes: number;
+    votingEnds: string | null;
+  } | null;
+  crosspost: JsonPost | null;
+}
+
+export interface JsonComment {
+  type: 'comment';
+  id: string;
+  parentId: string;
+  author: string;
+  body: string;
+  /** Null while Reddit hides the score */
+  score: number | null;
+  created: string | null;
+  edited: boolean;
+  url: string | null;
+  isSubmitter: boolean;
+  stickied: boolean;
+  distinguished: 'moderator' | 'admin' | null;
+  depth: number;
+  replies: JsonNode[];
+}
+
+/** Comments that weren't loaded: a "load more" or "continue this thread" stub */
+export interface JsonMore {
+  type: 'more';
+  id: string;
+  parentId: string;
+  count: number;
+  depth: number;
+}
+
+export type JsonNode = JsonComment | JsonMore;
+
+export interface JsonThread {
+  version: 1;
+  post: JsonPost;
+  /** Set when the thread is one comment's branch from a permalink */
+  focus: { commentId: string; parents: number } | null;
+  comments: JsonNode[];
+}
+
+function postJson(post: Post): JsonPost {
+  return {
+    id: post.id,
+    title: post.title,
+    author: post.author,
+    subreddit: post.subreddit,
+    url: redditUrl(post.permalink),
+    link: post.isSelf || !post.url ? null : post.url,
+    created: isoDate(post.createdUtc),
+    score: post.score,
+    commentCount: post.numComments,
+    body: post.selftext,
+    images: post.images.map(image => ({ url: image.url, caption: image.caption })),
+    video: post.video && { url: post.video.url, duration: post.video.duration },
+    poll: post.poll && {
+      options: post.poll.options.map(option => ({ text: option.text, votes: option.votes })),
+      totalVotes: post.poll.totalVotes,
+      votingEnds: isoDate(post.poll.votingEndsUtc),
+    },
+    crosspost: post.crosspost && postJson(post.crosspost),
+  };
+}
+
+function commentJson(comment: Comment): JsonComment {
+  return {
+    type: 'comment',
+    id: comment.id,
+    parentId: comment.parentId,
+    author: comment.author,
+    body: comment.body,
+    score: comment.scoreHidden ? null : comment.score,
+    created: isoDate(comment.createdUtc),
+    edited: comment.edited,
+    url: redditUrl(comment.permalink),
+    isSubmitter: comment.isSubmitter,
+    stickied: comment.stickied,
+    distinguished: comment.distinguished,
+    depth: comment.depth,
+    replies: comment.replies.map(nodeJson),
+  };
+}
+
+function nodeJson(node: CommentNode): JsonNode {
+  if (node.kind === 'comment') return commentJson(node);
+  return { type: 'more', id: node.id, parentId: node.parentId, count: node.count, depth: node.depth };
+}
+
+/**
+ * The thread as a normalised tree with camelCase field names, ISO dates and
+ * full URLs; filters apply as they do to the markdown. Comment bodies stay
+ * in Reddit markdown.
+ */
+export function threadToJson(thread: Thread, options: ConvertOptions): JsonThread {
+  const { thread: filtered } = filterThread(thread, options);
+  return {
+    version: 1,
+    post: postJson(filtered.post),
+    focus: filtered.focus ?? null,
+    comments: filtered.comments.map(nodeJson),
+  };
+}
@@ -0,0 +1,211 @@
+// Reddit markdown to CommonMark.
+//
+// Comment bodies are nested in the output by prefixing every line with
+// `> `, so anything in a body that reads as thread structure (quotes, fences,
+// author lines, `---` separators) has to stay unambiguous once prefixed.
+// Reddit-only syntax is converted to the nearest CommonMark equivalent.
+// Transcripts get the same documents as plain text instead.
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+/** Decode the HTML entities Reddit's JSON puts in titles, bodies and captions */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1] === 'x' || name[1] === 'X'
+        ? parseInt(name.slice(2), 16)
+        : parseInt(name.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+/** Escape text that CommonMark would read as raw HTML or an entity */
+export function escapeHtmlLike(text: string): string {
+  return text
+    .replace(/<(?=[A-Za-z/!?])/g, '\\<')
+    .replace(/&(?=#?[A-Za-z0-9]+;)/g, '\\&');
+}
+
+// `>!hidden text!<`; CommonMark has no spoilers, so they're labelled instead
+const SPOILER_RE = />!(.+?)!</g;
+// `^(several words)` or `^word`
+const SUPERSCRIPT_GROUP_RE = /\^\(([^)\n]*)\)/g;
+const SUPERSCRIPT_WORD_RE = /\^+([^\s^()]+)/g;
+// The same shape as the author line each comment starts with
+const AUTHOR_LINE_RE = /^\*\*u\/[^*]+\*\*/;
+
+function convertText(text: string): string {
+  return escapeHtmlLike(text.replace(SPOILER_RE, '(spoiler: $1)'))
+    .replace(SUPERSCRIPT_GROUP_RE, '<sup>$1</sup>')
+    .replace(SUPERSCRIPT_WORD_RE, '<sup>$1</sup>');
+}
+
+// Left as written: code spans, link destinations, and bare or <autolinked> URLs,
+// where a `^` is part of the address rather than a superscript
+const VERBATIM_INLINE_RE = /(`+[^`]*`+|\]\([^)\s]*\)|<https?:\/\/[^\s<>]+>|https?:\/\/[^\s<>()]+)/;
+
+/**
+ * Convert a line's text, leaving code spans and URLs untouched. A line that
+ * looks like a comment's author line is escaped so it can't pass for a reply.
+ */
+function convertInline(line: string): string {
+  const converted = line
+    .split(VERBATIM_INLINE_RE)
+    .map((part, i) => (i % 2 === 1 ? part : convertText(part)))
+    .join('');
+  return AUTHOR_LINE_RE.test(converted) ? `\\${converted}` : converted;
+}
+
+const FENCE_RE = /^ {0,3}(`{3,}|~{3,})/;
+const INDENTED_CODE_RE = /^( {4}|\t)/;
+const QUOTE_RE = /^ {0,3}((?:>(?!!) ?)+)(.*)$/;
+const THEMATIC_BREAK_RE = /^ {0,3}-( *-){2,} *$/;
+
+function closesFence(line: string, fence: string): boolean {
+  const trimmed = line.trim();
+  return trimmed.length >= fence.length
+    && trimmed[0] === fence[0]
+    && new RegExp(`^\\${fence[0]}+$`).test(trimmed);
+}
+
+/**
+ * Convert one Reddit markdown document (a comment body or self text).
+ * Code is passed through untouched; an unclosed fence is closed so it
+ * can't swallow the rest of the thread.
+ */
+export function redditToCommonMark(markdown: string): string {
+  const out: string[] = [];
+  let fence: string | null = null;
+  let previousBlank = true;
+  let inIndentedCode = false;
+
+  for (const raw of markdown.split('\n')) {
+    // Lines of zero-width spaces are Reddit's trick for extra blank lines
+    const line = /^[\s\u200b]*$/.test(raw) ? '' : raw;
+
+    if (fence) {
+      out.push(line);
+      if (closesFence(line, fence)) fence = null;
+      continue;
+    }
+
+    const open = FENCE_RE.exec(line);
+    if (open) {
+      fence = open[1];
+      out.push(line);
+    } else if (INDENTED_CODE_RE.test(line) && (previousBlank || inIndentedCode)) {
+      out.push(line);
+      inIndentedCode = true;
+      previousBlank = false;
+      continue;
+    } else if (line === '') {
+      out.push(line);
+    } else if (QUOTE_RE.test(line)) {
+      // `>quote` and `> > quote` both become `> ` per level
+      const [, markers, rest] = QUOTE_RE.exec(line)!;
+      const depth = (markers.match(/>/g) || []).length;
+      out.push(`${'> '.repeat(depth)}${convertInline(rest)}`);
+    } else if (THEMATIC_BREAK_RE.test(line) && previousBlank) {
+      // Keep `---` for the separators between post, comments and notes
+      out.push('* * *');
+    } else {
+      out.push(convertInline(line));
+    }
+
+    previousBlank = line === '';
+    inIndentedCode = false;
+  }
+
+  if (fence) out.push(fence);
+  return out.join('\n');
+}
+
+// Inline markup to drop in plain text, applied in order: links before emphasis
+const PLAIN_INLINE: [RegExp, string][] = [
+  [/!\[([^\]]*)\]\(([^)\s]+)\)/g, '$1 ($2)'],
+  [/\[([^\]]+)\]\(([^)\s]+)\)/g, '$1 ($2)'],
+  [/\*\*(.+?)\*\*/g, '$1'],
+  [/(?<!\w)__(.+?)__(?!\w)/g, '$1'],
+  [/\*(?=\S)(.+?)(?<=\S)\*/g, '$1'],
+  [/(?<!\w)_(?=\S)(.+?)(?<=\S)_(?!\w)/g, '$1'],
+  [/~~(.+?)~~/g, '$1'],
+  [SUPERSCRIPT_GROUP_RE, '$1'],
+  [/\^+(?=[^\s^()])/g, ''],
+];
+
+// Backslash escapes; the escaped characters are set aside (as private-use
+// placeholders) while the markup is dropped, so `\*` never reads as emphasis
+const ESCAPE_RE = /\\([\\`*_{}[\]()#+\-.!>~^|<&])/g;
+const PLACEHOLDER_RE = /\ue000(\d+)\ue001/g;
+
+function plainText(text: string): string {
+  let plain = text
+    .replace(ESCAPE_RE, (_, char: string) => `\ue000${char.charCodeAt(0)}\ue001`)
+    .replace(SPOILER_RE, '(spoiler: $1)');
+  for (const [re, replacement] of PLAIN_INLINE) plain = plain.replace(re, replacement);
+  return plain
+    // `text (url)` reads badly when the link text already is the URL
+    .replace(/(https?:\/\/\S+) \(\1\)/g, '$1')
+    .replace(PLACEHOLDER_RE, (_, code: string) => String.fromCharCode(Number(code)));
+}
+
+/** A line as plain text; code spans keep their contents and lose their backticks */
+function plainInline(line: string): string {
+  return line
+    .split(/(`+[^`]*`+)/)
+    .map((part, i) => (i % 2 === 1 ? part.replace(/^`+|`+$/g, '') : plainText(part)))
+    .join('');
+}
+
+/**
+ * Convert one Reddit markdown document to plain text for transcripts:
+ * emphasis, headings and fences are dropped, links keep their URL in
+ * parentheses, and quotes keep a `> ` per level.
+ */
+export function redditToPlainText(markdown: string): string {
+  const out: string[] = [];
+  let fence: string | null = null;
+
+  for (const raw of markdown.split('\n')) {
+    const line = /^[\s\u200b]*$/.test(raw) ? '' : raw;
+
+    if (fence) {
+      if (closesFence(line, fence)) fence = null;
+      else out.push(line);
+      continue;
+    }
+
+    const open = FENCE_RE.exec(line);
+    if (open) {
+      fence = open[1];
+    } else if (QUOTE_RE.test(line)) {
+      const [, markers, rest] = QUOTE_RE.exec(line)!;
+      const depth = (markers.match(/>/g) || []).length;
+      out.push(`${'> '.repeat(depth)}${plainInline(rest)}`);
+    } else if (INDENTED_CODE_RE.test(line)) {
+      out.push(line);
+    } else {
+      out.push(plainInline(line.replace(/^ {0,3}#{1,6} +/, '')));
+    }
+  }
+
+  return out.join('\n');
+}
+
+// Block constructs that can't follow an author line's paragraph directly:
+// some can't interrupt a paragraph at all, the rest read as part of it.
+const BLOCK_START_RE = /^( {4}|\t| {0,3}([>#|]|[-+*] |\d+[.)] |`{3}|~{3}|\* \* \*$))/;
+
+/** Whether converted markdown opens with a block construct rather than a paragraph */
+export function startsWithBlock(markdown: string): boolean {
+  return BLOCK_START_RE.test(markdown);
+}
@@ -0,0 +1,284 @@
+// Reddit thread URLs: the many shapes people paste, and the query
+// parameters Reddit accepts on a thread's `.json` URL. Subreddit listings
+// (`/r/<sub>/top?t=week`) are recognised too, for digests, and a user's
+// comments and posts (`/user/<name>/comments`), for their history.
+//
+// Only allow-listed parameters survive into the URL we fetch, and that URL is
+// also the cache key, so results for one sort are never served for another.
+
+export const COMMENT_SORTS = ['best', 'top', 'new', 'controversial', 'old', 'qa'] as const;
+export type CommentSort = typeof COMMENT_SORTS[number];
+
+/** Reddit's cap on `?limit=` for comments */
+export const MAX_COMMENT_LIMIT = 500;
+
+/** Reddit's cap on `?context=`, the parent comments shown above a permalinked comment */
+export const MAX_COMMENT_CONTEXT = 8;
+
+export const LISTING_SORTS = ['hot', 'new', 'top', 'rising', 'controversial'] as const;
+export type ListingSort = typeof LISTING_SORTS[number];
+
+/** The `?t=` periods of top and controversial listings */
+export const LISTING_TIMES = ['hour', 'day', 'week', 'month', 'year', 'all'] as const;
+export type ListingTime = typeof LISTING_TIMES[number];
+
+/** A subreddit's post listing; time is only set for top and controversial */
+export interface Listing {
+  subreddit: string;
+  sort: ListingSort;
+  time: ListingTime | null;
+}
+
+/** Reddit's cap on `?limit=` for a page of posts or a user's history */
+export const MAX_LISTING_LIMIT = 100;
+
+/** What a user's history lists: their comments or their posts */
+export const HISTORY_KINDS = ['comments', 'submitted'] as const;
+export type HistoryKind = typeof HISTORY_KINDS[number];
+
+const HISTORY_SORTS = new Set(['new', 'hot', 'top', 'controversial']);
+
+export interface HistoryUrl {
+  username: string;
+  kind: HistoryKind;
+}
+
+/** The query options that change what Reddit returns */
+export interface ThreadQuery {
+  sort: CommentSort | null;
+  limit: number | null;
+  context: number | null;
+}
+
+// Hosts that serve the same threads as www.reddit.com under the same paths
+const WWW_ALIASES = new Set(['reddit.com', 'm.reddit.com', 'new.reddit.com', 'np.reddit.com']);
+const SHORTLINK_HOST = 'redd.it';
+
+// Mobile app share links, /r/<sub>/s/<share id>
+const SHARE_PATH_RE = /^\/r\/[A-Za-z0-9_]+\/s\/[A-Za-z0-9]+\/?$/;
+
+// [/r/<sub>]/comments/<post>/<slug>/<comment>; new Reddit uses "comment" as the slug
+const COMMENT_PATH_RE = /^(?:\/r\/[A-Za-z0-9_]+)?\/comments\/[a-z0-9]+\/[^/]*\/([a-z0-9]+)\/?$/;
+
+// Reddit calls "best" `confidence` in the API; accept both spellings
+const REDDIT_SORT_NAMES: Record<string, string> = {
+  best: 'confidence',
+  confidence: 'confidence',
+  top: 'top',
+  new: 'new',
+  controversial: 'controversial',
+  old: 'old',
+  qa: 'qa',
+};
+
+// /user/<name>/comments or /u/<name>/submitted
+const USER_PATH_RE = /^\/(?:user|u)\/([A-Za-z0-9_-]+)\/(comments|submitted)\/?$/;
+
+// Reddit's paging cursor: the fullname of the last item on the previous page
+const AFTER_RE = /^t[13]_[a-z0-9]+$/;
+
+// /r/<sub>[/<sort>]
+const LISTING_PATH_RE = /^\/r\/([A-Za-z0-9_]+)(?:\/(hot|new|top|rising|controversial))?\/?$/;
+
+export function isCommentSort(value: string): value is CommentSort {
+  return (COMMENT_SORTS as readonly string[]).includes(value);
+}
+
+export function isListingTime(value: string): value is ListingTime {
+  return (LISTING_TIMES as readonly string[]).includes(value);
+}
+
+/** The host to fetch a Reddit URL from: aliases of www become www */
+export function canonicalHost(hostname: string): string {
+  return WWW_ALIASES.has(hostname) ? 'www.reddit.com' : hostname;
+}
+
+/** Any host that serves or redirects to Reddit threads */
+export function isRedditHost(hostname: string): boolean {
+  return hostname === 'www.reddit.com' || hostname === 'old.reddit.com'
+    || WWW_ALIASES.has(hostname) || hostname === SHORTLINK_HOST;
+}
+
+/**
+ * redd.it shortlinks and `/s/` share links only say which thread they point
+ * at by redirecting, so they have to be resolved (by the Worker) first.
+ */
+export function isShareLink(redditUrl: string): boolean {
+  let target: URL;
+  try {
+    target = new URL(redditUrl);
+  } catch {
+    return false;
+  }
+  if (target.hostname === SHORTLINK_HOST) return true;
+  return isRedditHost(target.hostname) && SHARE_PATH_RE.test(target.pathname);
+}
+
+/** Move `m.`, `new.`, `np.` and bare reddit.com URLs onto www; anything else comes back unchanged */
+export function normaliseRedditUrl(redditUrl: string): string {
+  let target: URL;
+  try {
+    target = new URL(redditUrl);
+  } catch {
+    return redditUrl;
+  }
+  const hostname = canonicalHost(target.hostname);
+  if (hostname === target.hostname) return redditUrl;
+  target.hostname = hostname;
+  return target.toString();
+}
+
+function boundedInt(value: string | null, min: number, max: number): number | null {
+  if (!value || !/^\d+$/.test(value)) return null;
+  const n = parseInt(value, 10);
+  return n >= min ? Math.min(n, max) : null;
+}
+
+/** Allow-listed, normalised `sort`, `limit` and `context`, in a fixed order */
+export function threadQuery(params: URLSearchParams): URLSearchParams {
+  const query = new URLSearchParams();
+
+  const sort = REDDIT_SORT_NAMES[params.get('sort') || ''];
+  if (sort) query.set('sort', sort);
+
+  const limit = boundedInt(params.get('limit'), 1, MAX_COMMENT_LIMIT);
+  if (limit !== null) query.set('limit', String(limit));
+
+  const context = boundedInt(params.get('context'), 0, MAX_COMMENT_CONTEXT);
+  if (context !== null) query.set('context', String(context));
+
+  return query;
+}
+
+/**
+ * Set `sort`, `limit` and `context` on a pasted Reddit URL. Unset options
+ * keep whatever the URL already had; unparseable URLs come back unchanged
+ * for the caller to reject.
+ */
+export function withThreadQuery(redditUrl: string, { sort, limit, context }: ThreadQuery): string {
+  let target: URL;
+  try {
+    target = new URL(redditUrl);
+  } catch {
+    return redditUrl;
+  }
+  if (sort) target.searchParams.set('sort', sort);
+  if (limit !== null) target.searchParams.set('limit', String(limit));
+  if (context !== null) target.searchParams.set('context', String(context));
+  return target.toString();
+}
+
+/**
+ * The comment a permalink points at, and how many parents to show above it.
+ * Null for a whole-thread URL.
+ */
+export function focusFromUrl(redditUrl: string): { commentId: string; context: number } | null {
+  let target: URL;
+  try {
+    target = new URL(redditUrl);
+  } catch {
+    return null;
+  }
+  const match = COMMENT_PATH_RE.exec(target.pathname);
+  if (!match) return null;
+  return {
+    commentId: match[1],
+    context: boundedInt(target.searchParams.get('context'), 0, MAX_COMMENT_CONTEXT) ?? 0,
+  };
+}
+
+/** The `.json` URL for a thread, keeping only allow-listed query parameters */
+export function threadJsonUrl(redditUrl: string): string {
+  const target = new URL(redditUrl);
+  const path = target.pathname.replace(/\/+$/, '');
+  const query = threadQuery(target.searchParams).toString();
+  return `${target.origin}${path}.json${query ? `?${query}` : ''}`;
+}
+
+/** The listing a subreddit URL shows, or null when it isn't one */
+export function parseListingUrl(redditUrl: string): Listing | null {
+  let target: URL;
+  try {
+    target = new URL(redditUrl);
+  } catch {
+    return null;
+  }
+  if (!isRedditHost(target.hostname) || target.hostname === SHORTLINK_HOST) return null;
+  const match = LISTING_PATH_RE.exec(target.pathname);
+  if (!match) return null;
+
+  const sort = (match[2] || 'hot') as ListingSort;
+  const time = target.searchParams.get('t') || '';
+  const timed = sort === 'top' || sort === 'controversial';
+  return { subreddit: match[1], sort, time: timed && isListingTime(time) ? time : null };
+}
+
+function listingPath({ subreddit, sort }: Listing): string {
+  return `https://www.reddit.com/r/${subreddit}/${sort}`;
+}
+
+/** The listing's page on Reddit */
+export function listingPageUrl(listing: Listing): string {
+  return `${listingPath(listing)}/${listing.time ? `?t=${listing.time}` : ''}`;
+}
+
+/** The listing's `.json` URL for its first `limit` posts */
+export function listingJsonUrl(listing: Listing, limit: number): string {
+  const query = new URLSearchParams();
+  if (listing.time) query.set('t', listing.time);
+  query.set('limit', String(limit));
+  return `${listingPath(listing)}.json?${query}`;
+}
+
+const LISTING_TIME_LABELS: Record<ListingTime, string> = {
+  hour: 'this hour',
+  day: 'today',
+  week: 'this week',
+  month: 'this month',
+  year: 'this year',
+  all: 'of all time',
+};
+
+/** A heading for a listing, e.g. "Top this week in r/programming" */
+export function describeListing({ subreddit, sort, time }: Listing): string {
+  const period = time ? ` ${LISTING_TIME_LABELS[time]}` : '';
+  return `${sort.charAt(0).toUpperCase()}${sort.slice(1)}${period} in r/${subreddit}`;
+}
+
+/** The user and list a profile URL shows, or null when it isn't one */
+export function parseHistoryUrl(redditUrl: string): HistoryUrl | null {
+  let target: URL;
+  try {
+    target = new URL(redditUrl);
+  } catch {
+    return null;
+  }
+  if (!isRedditHost(target.hostname) || target.hostname === SHORTLINK_HOST) return null;
+  const match = USER_PATH_RE.exec(target.pathname);
+  return match ? { username: match[1], kind: match[2] as HistoryKind } : null;
+}
+
+/**
+ * Allow-listed `sort`, `t` and `after` for a page of a user's history, in a
+ * fixed order; pages are always as large as Reddit allows.
+ */
+export function historyQuery(params: URLSearchParams): URLSearchParams {
+  const query = new URLSearchParams();
+
+  const sort = params.get('sort') || '';
+  if (HISTORY_SORTS.has(sort)) query.set('sort', sort);
+
+  const time = params.get('t') || '';
+  if (isListingTime(time)) query.set('t', time);
+
+  const after = params.get('after') || '';
+  if (AFTER_RE.test(after)) query.set('after', after);
+
+  query.set('limit', String(MAX_LISTING_LIMIT));
+  return query;
+}
+
+/** A heading for a user's history, e.g. "Comments by u/spez" */
+export function describeHistory({ username, kind }: HistoryUrl): string {
+  return `${kind === 'comments' ? 'Comments' : 'Posts'} by u/${username}`;
+}
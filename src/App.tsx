@@ -1,52 +1,90 @@
-import { useRef, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { Header } from './components/Header';
 import { RedditForm } from './components/RedditForm';
 import { MarkdownPreview } from './components/MarkdownPreview';
+import { SavedList } from './components/SavedList';
 import { Footer } from './components/Footer';
+import { DEFAULT_OPTIONS, type ConvertOptions } from '../shared/converter';
+import type { PreviewResult } from './convert';
+import { savedResult, saveConversion, type SavedConversion } from './saved';
+import { loadFrontMatterSettings, saveFrontMatterSettings } from './settings';
+import { loadSnapshot, snapshotIdFromPath } from './snapshot';
 
 function App() {
-  const [markdown, setMarkdown] = useState('');
-  const [title, setTitle] = useState('');
+  const [result, setResult] = useState<PreviewResult | null>(null);
   const [url, setUrl] = useState(() => {
     const params = new URLSearchParams(window.location.search);
     return params.get('url') || '';
   });
+  const [options, setOptions] = useState<ConvertOptions>(
+    () => ({ ...DEFAULT_OPTIONS, ...loadFrontMatterSettings() }),
+  );
   const shouldAutoConvert = useRef(
     new URLSearchParams(window.location.search).has('url')
   );
-  const hasContent = markdown.length > 0;
+  // A short share link opens its stored snapshot instead of converting afresh
+  const snapshotId = useRef(snapshotIdFromPath(window.location.pathname));
+  const [loadingSnapshot, setLoadingSnapshot] = useState(snapshotId.current !== null);
+  const [snapshotError, setSnapshotError] = useState('');
+
+  useEffect(() => {
+    if (!snapshotId.current) return;
+    loadSnapshot(snapshotId.current)
+      .then(snapshot => {
+        setUrl(snapshot.url);
+        setResult(snapshot.result);
+      })
+      .catch(err => setSnapshotError(err instanceof Error ? err.message : String(err)))
+      .finally(() => setLoadingSnapshot(false));
+  }, []);
+
+  const { frontMatter, frontMatterFields } = options;
+  useEffect(() => {
+    saveFrontMatterSettings({ frontMatter, frontMatterFields });
+  }, [frontMatter, frontMatterFields]);
+
+  const showResult = (converted: PreviewResult, convertedUrl: string) => {
+    setResult(converted);
+    saveConversion(convertedUrl, converted);
+  };
 
-  const handleResult = ({ markdown, title }: { markdown: string; title: string }) => {
-    setMarkdown(markdown);
-    setTitle(title);
+  // Reopening reads storage only, so it works offline
+  const reopen = (conversion: SavedConversion) => {
+    setUrl(conversion.url);
+    setResult(savedResult(conversion));
   };
 
   const shareUrl = url
-    ? `${window.location.origin}${window.location.pathname}?url=${encodeURIComponent(url)}`
+    ? `${window.location.origin}${import.meta.env.BASE_URL}?url=${encodeURIComponent(url)}`
     : '';
 
   return (
     <div className="page">
-      {!hasContent ? (
+      {!result ? (
         <div className="hero">
           <div className="container">
             <Header />
             <RedditForm
               url={url}
               onUrlChange={setUrl}
-              onSubmit={handleResult}
+              options={options}
+              onOptionsChange={setOptions}
+              onSubmit={showResult}
               autoConvert={shouldAutoConvert.current}
             />
+            {loadingSnapshot && <p className="loading-hint">Loading the shared snapshot&hellip;</p>}
+            {snapshotError && <p className="error-msg">{snapshotError}</p>}
             <p className="bookmarklet-hint">
               Drag to your bookmark bar:{' '}
               <a
                 className="bookmarklet-link"
-                href={`javascript:void(window.open('${window.location.origin + window.location.pathname.replace(/\/$/, '')}?url='+encodeURIComponent(window.location.href)))`}
+                href={`javascript:void(window.open('${window.location.origin + import.meta.env.BASE_URL.replace(/\/$/, '')}?url='+encodeURIComponent(window.location.href)))`}
                 onClick={(e) => e.preventDefault()}
               >
                 R→MD
               </a>
             </p>
+            <SavedList onOpen={reopen} />
           </div>
         </div>
       ) : (
@@ -56,14 +94,16 @@ function App() {
             <RedditForm
               url={url}
               onUrlChange={setUrl}
-              onSubmit={handleResult}
+              options={options}
+              onOptionsChange={setOptions}
+              onSubmit={showResult}
               compact
-              onClear={() => { setMarkdown(''); setTitle(''); }}
+              onClear={() => setResult(null)}
             />
           </div>
           <hr className="rule rule--thin" />
           <div className="container content-area">
-            <MarkdownPreview markdown={markdown} shareUrl={shareUrl} title={title} />
+            <MarkdownPreview result={result} sourceUrl={url} shareUrl={shareUrl} />
           </div>
         </>
       )}
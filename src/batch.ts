@@ -0,0 +1,81 @@
+// Batch conversion: many pasted URLs, converted a few at a time and
+// saved together as a ZIP of markdown files with an index.
+
+import { strToU8, zipSync } from 'fflate';
+import { threadToMarkdown } from '../shared/converter';
+import { exportFilename } from '../shared/export';
+import { escapeHtmlLike } from '../shared/reddit-markdown';
+import { resultTitle, type PreviewResult } from './convert';
+
+// Conversions running at once; more mostly earns a rate limit from Reddit
+export const BATCH_CONCURRENCY = 3;
+// Keeps one paste from queueing thousands of requests
+export const MAX_BATCH_URLS = 100;
+
+export const BATCH_INDEX_FILENAME = 'index.md';
+
+export type BatchStatus = 'queued' | 'converting' | 'done' | 'failed';
+
+export interface BatchItem {
+  url: string;
+  status: BatchStatus;
+  result?: PreviewResult;
+  error?: { code: string; message: string };
+}
+
+/** The URLs in pasted text, one per line or separated by spaces, without repeats */
+export function parseBatchUrls(text: string): string[] {
+  return [...new Set(text.split(/\s+/).filter(Boolean))];
+}
+
+/** A filename for each converted item, numbered where two titles share a slug */
+function batchFilenames(items: BatchItem[]): Map<BatchItem, string> {
+  const names = new Map<BatchItem, string>();
+  const used = new Set<string>([BATCH_INDEX_FILENAME]);
+  for (const item of items) {
+    if (!item.result) continue;
+    const base = exportFilename(resultTitle(item.result), 'markdown').replace(/\.md$/, '');
+    let name = `${base}.md`;
+    for (let n = 2; used.has(name); n++) name = `${base}-${n}.md`;
+    used.add(name);
+    names.set(item, name);
+  }
+  return names;
+}
+
+function escapeLinkText(text: string): string {
+  return escapeHtmlLike(text.replace(/[[\]\\]/g, '\\$&'));
+}
+
+/** The archive's files by name: each converted item's markdown, and an index of them all */
+export function batchFiles(items: BatchItem[]): Record<string, string> {
+  const names = batchFilenames(items);
+  const files: Record<string, string> = {};
+  const lines = ['# Batch conversion', ''];
+  lines.push(`Converted ${names.size} of ${items.length} URL${items.length === 1 ? '' : 's'}.`, '');
+
+  for (const [item, name] of names) {
+    const result = item.result!;
+    files[name] = 'thread' in result ? threadToMarkdown(result.thread, result.options) : result.markdown;
+    lines.push(`- [${escapeLinkText(resultTitle(result))}](${encodeURI(name)}) \u2014 <${item.url}>`);
+  }
+
+  const failed = items.filter(item => !item.result);
+  if (failed.length > 0) {
+    if (names.size > 0) lines.push('');
+    lines.push('## Not converted', '');
+    for (const item of failed) {
+      const reason = item.error ? `\`${item.error.code}\`: ${item.error.message}` : 'not converted yet';
+      lines.push(`- <${item.url}> \u2014 ${reason}`);
+    }
+  }
+
+  files[BATCH_INDEX_FILENAME] = `${lines.join('\n')}\n`;
+  return files;
+}
+
+/** The batch as a ZIP archive */
+export function batchZip(items: BatchItem[]): Uint8Array {
+  const files = batchFiles(items);
+  return zipSync(Object.fromEntries(Object.entries(files).map(([name, text]) => [name, strToU8(text)])));
+}
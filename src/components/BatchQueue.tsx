@@ -0,0 +1,104 @@
+import { useEffect, useRef, useState } from 'react';
+import type { ConvertOptions } from '../../shared/converter';
+import { BATCH_CONCURRENCY, batchZip, type BatchItem, type BatchStatus } from '../batch';
+import { convertUrl, ConvertError, resultTitle, type ConvertExtras } from '../convert';
+import { downloadFile } from '../download';
+
+const STATUS_LABELS: Record<BatchStatus, string> = {
+  queued: 'Queued',
+  converting: 'Converting',
+  done: 'Done',
+  failed: 'Failed',
+};
+
+function patchItem(items: BatchItem[], index: number, patch: Partial<BatchItem>): BatchItem[] {
+  return items.map((item, i) => (i === index ? { ...item, ...patch } : item));
+}
+
+interface BatchQueueProps {
+  urls: string[];
+  options: ConvertOptions;
+  extras: ConvertExtras;
+}
+
+/** Converts a list of URLs a few at a time, with a retry for each failure and a ZIP of the results */
+export function BatchQueue({ urls, options, extras }: BatchQueueProps) {
+  const [items, setItems] = useState<BatchItem[]>(() => urls.map(url => ({ url, status: 'queued' })));
+  // Items with a conversion in flight; a ref so an effect that runs twice can't start one twice
+  const running = useRef(new Set<number>());
+
+  // Start queued items whenever a slot is free
+  useEffect(() => {
+    const next = items
+      .map((item, index) => ({ item, index }))
+      .filter(({ item, index }) => item.status === 'queued' && !running.current.has(index))
+      .slice(0, Math.max(BATCH_CONCURRENCY - running.current.size, 0));
+    if (next.length === 0) return;
+
+    for (const { item, index } of next) {
+      running.current.add(index);
+      convertUrl(item.url, options, extras)
+        .then((converted): Partial<BatchItem> => ({ status: 'done', result: converted.result }))
+        .catch((err): Partial<BatchItem> => ({
+          status: 'failed',
+          error: err instanceof ConvertError
+            ? { code: err.code, message: err.message }
+            : { code: 'unknown', message: err instanceof Error ? err.message : String(err) },
+        }))
+        .then(outcome => {
+          running.current.delete(index);
+          setItems(prev => patchItem(prev, index, outcome));
+        });
+    }
+    setItems(prev => prev.map((item, i) => (
+      next.some(({ index }) => index === i) ? { ...item, status: 'converting' } : item
+    )));
+  }, [items, options, extras]);
+
+  const retry = (index: number) => {
+    setItems(prev => patchItem(prev, index, { status: 'queued', error: undefined }));
+  };
+
+  const done = items.filter(item => item.status === 'done').length;
+  const failed = items.filter(item => item.status === 'failed').length;
+  const finished = done + failed === items.length;
+
+  const download = () => {
+    downloadFile(batchZip(items), 'reddit-threads.zip', 'application/zip');
+  };
+
+  return (
+    <div className="batch fade-in">
+      <div className="batch-controls">
+        <span className="batch-count">
+          {done} of {items.length} converted
+          {failed > 0 && `, ${failed} failed`}
+          {!finished && '\u2026'}
+        </span>
+        <button onClick={download} disabled={done === 0} className="btn-tab">
+          Download ZIP
+        </button>
+      </div>
+      <ol className="batch-list">
+        {items.map((item, index) => (
+          <li key={item.url} className={`batch-item batch-item--${item.status}`}>
+            <span className="batch-status">{STATUS_LABELS[item.status]}</span>
+            <span className="batch-title">
+              {item.result ? resultTitle(item.result) : item.url}
+              {item.error && (
+                <span className="batch-error">
+                  <code>{item.error.code}</code> {item.error.message}
+                </span>
+              )}
+            </span>
+            {item.status === 'failed' && (
+              <button onClick={() => retry(index)} className="btn-tab">
+                Retry
+              </button>
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
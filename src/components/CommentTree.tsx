@@ -0,0 +1,84 @@
+import { useState } from 'react';
+import {
+  metadataParts,
+  type Comment,
+  type CommentNode,
+  type ConvertOptions,
+} from '../../shared/converter';
+import { redditToCommonMark } from '../../shared/reddit-markdown';
+import { RenderedMarkdown } from './RenderedMarkdown';
+
+/** Comments in a branch, not counting stubs */
+function countComments(nodes: CommentNode[]): number {
+  return nodes.reduce((n, node) => (node.kind === 'comment' ? n + 1 + countComments(node.replies) : n), 0);
+}
+
+interface CommentTreeProps {
+  comments: CommentNode[];
+  options: ConvertOptions;
+  selected: ReadonlySet<string>;
+  onToggleSelected: (commentId: string) => void;
+}
+
+/** Comments as a tree where each branch can be collapsed and each comment picked */
+export function CommentTree({ comments, options, selected, onToggleSelected }: CommentTreeProps) {
+  const [collapsed, setCollapsed] = useState<ReadonlySet<string>>(new Set());
+
+  const toggleCollapsed = (commentId: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (!next.delete(commentId)) next.add(commentId);
+      return next;
+    });
+  };
+
+  const renderNodes = (nodes: CommentNode[]) => (
+    <ul className="tree">
+      {nodes.map(node => (node.kind === 'comment' ? renderComment(node) : (
+        <li key={node.id} className="tree-more">
+          {node.count > 0 ? `${node.count} more not loaded` : 'Thread continues on Reddit'}
+        </li>
+      )))}
+    </ul>
+  );
+
+  const renderComment = (comment: Comment) => {
+    const isCollapsed = collapsed.has(comment.id);
+    const meta = metadataParts(comment, options.metadata).map(part => part.text);
+    if (isCollapsed) {
+      const hidden = countComments(comment.replies);
+      if (hidden > 0) meta.push(`${hidden} hidden`);
+    }
+    return (
+      <li key={comment.id} className="tree-node">
+        <div className="tree-row">
+          <button
+            onClick={() => toggleCollapsed(comment.id)}
+            className="tree-toggle"
+            aria-expanded={!isCollapsed}
+            aria-label={`${isCollapsed ? 'Expand' : 'Collapse'} u/${comment.author}`}
+          >
+            {isCollapsed ? '+' : '\u2212'}
+          </button>
+          <label className="form-check">
+            <input
+              type="checkbox"
+              checked={selected.has(comment.id)}
+              onChange={() => onToggleSelected(comment.id)}
+            />
+            <strong>u/{comment.author}</strong>
+          </label>
+          {meta.length > 0 && <span className="tree-meta">{meta.join(' · ')}</span>}
+        </div>
+        {!isCollapsed && (
+          <>
+            <RenderedMarkdown markdown={redditToCommonMark(comment.body)} layout={options.layout} />
+            {comment.replies.length > 0 && renderNodes(comment.replies)}
+          </>
+        )}
+      </li>
+    );
+  };
+
+  return comments.length > 0 ? renderNodes(comments) : <p className="tree-empty">No comments.</p>;
+}
@@ -1,26 +1,147 @@
-import { useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
+import {
+  filterThread,
+  selectComments,
+  threadToMarkdown,
+  threadToObsidian,
+  threadToText,
+} from '../../shared/converter';
+import {
+  exportFilename,
+  exportMimeType,
+  threadToJson,
+  type ExportFormat,
+} from '../../shared/export';
+import { resultTitle, type PreviewResult } from '../convert';
+import { downloadFile } from '../download';
+import { createSnapshot } from '../snapshot';
+import type { markdownToHtmlDocument } from '../export-html';
+import { CommentTree } from './CommentTree';
+import { RenderedMarkdown } from './RenderedMarkdown';
+
+/** The rendered view, the pickable comment tree, or the text of one export format */
+type PreviewView = 'rendered' | 'tree' | ExportFormat;
+
+const VIEW_LABELS: [PreviewView, string][] = [
+  ['rendered', 'Rendered'],
+  ['tree', 'Tree'],
+  ['markdown', 'Raw'],
+  ['html', 'HTML'],
+  ['text', 'Text'],
+  ['json', 'JSON'],
+  ['obsidian', 'Obsidian'],
+];
+
+// Digests and user histories arrive as markdown, so the views built from a thread are left out
+const MARKDOWN_VIEWS = new Set<PreviewView>(['rendered', 'markdown', 'html']);
+
+type HtmlRenderer = typeof markdownToHtmlDocument;
 
 interface MarkdownPreviewProps {
-  markdown: string;
+  result: PreviewResult;
+  /** The Reddit URL the result was converted from */
+  sourceUrl: string;
+  /** A live `?url=` link, shared when a snapshot can't be stored */
   shareUrl: string;
-  title: string;
 }
 
-export function MarkdownPreview({ markdown, shareUrl, title }: MarkdownPreviewProps) {
-  const [showRaw, setShowRaw] = useState(false);
+export function MarkdownPreview({ result, sourceUrl, shareUrl }: MarkdownPreviewProps) {
+  const { options } = result;
+  const thread = 'thread' in result ? result.thread : null;
+  const title = resultTitle(result);
+  const [selectedView, setView] = useState<PreviewView>('rendered');
   const [copied, setCopied] = useState(false);
   const [shared, setShared] = useState(false);
+  const [renderHtml, setRenderHtml] = useState<HtmlRenderer | null>(null);
+  const [selected, setSelected] = useState<ReadonlySet<string>>(new Set());
+  const [copiedSelection, setCopiedSelection] = useState(false);
+  const [snapshotUrl, setSnapshotUrl] = useState<string | null>(null);
+
+  const views = thread ? VIEW_LABELS : VIEW_LABELS.filter(([tab]) => MARKDOWN_VIEWS.has(tab));
+  const view = views.some(([tab]) => tab === selectedView) ? selectedView : 'rendered';
+  const format: ExportFormat = view === 'rendered' || view === 'tree' ? 'markdown' : view;
+  const markdown = useMemo(
+    () => ('thread' in result ? threadToMarkdown(result.thread, options) : result.markdown),
+    [result, options],
+  );
+  // The tree shows what the markdown does, so filtered-out comments can't be picked
+  const filtered = useMemo(() => thread && filterThread(thread, options).thread, [thread, options]);
+
+  // Picks belong to one thread
+  useEffect(() => setSelected(new Set()), [thread]);
+
+  // A snapshot holds the markdown as it was shared; new options need a new one
+  useEffect(() => setSnapshotUrl(null), [markdown, options.layout]);
+
+  // The HTML export pulls in react-dom/server, so it loads on first use
+  useEffect(() => {
+    if (format !== 'html' || renderHtml) return;
+    import('../export-html')
+      .then(module => setRenderHtml(() => module.markdownToHtmlDocument))
+      .catch(err => console.error('[r2md] Loading the HTML export failed:', err));
+  }, [format, renderHtml]);
+
+  const output = useMemo((): string | null => {
+    switch (format) {
+      case 'markdown':
+        return markdown;
+      case 'html':
+        return renderHtml ? renderHtml(markdown, title, options.layout) : null;
+      case 'text':
+        return thread && threadToText(thread, options);
+      case 'json':
+        return thread && `${JSON.stringify(threadToJson(thread, options), null, 2)}\n`;
+      case 'obsidian':
+        return thread && threadToObsidian(thread, options);
+    }
+  }, [format, markdown, renderHtml, thread, title, options]);
 
   const copyToClipboard = async () => {
-    await navigator.clipboard.writeText(markdown);
+    if (output === null) return;
+    await navigator.clipboard.writeText(output);
     setCopied(true);
     setTimeout(() => setCopied(false), 2000);
   };
 
+  const toggleSelected = (commentId: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (!next.delete(commentId)) next.add(commentId);
+      return next;
+    });
+  };
+
+  // Picked comments are taken from the unfiltered thread so the filter notes still apply
+  const copySelection = async () => {
+    if (!thread || selected.size === 0) return;
+    await navigator.clipboard.writeText(threadToMarkdown(selectComments(thread, selected), options));
+    setCopiedSelection(true);
+    setTimeout(() => setCopiedSelection(false), 2000);
+  };
+
+  const download = () => {
+    if (output === null) return;
+    downloadFile(output, exportFilename(title, format), exportMimeType(format));
+  };
+
+  /** A short link to a stored snapshot, or the live link if storing fails */
+  const shareLink = async (): Promise<string> => {
+    if (snapshotUrl) return snapshotUrl;
+    try {
+      const link = await createSnapshot(sourceUrl, { title, markdown, options });
+      setSnapshotUrl(link);
+      return link;
+    } catch (err) {
+      console.warn('[r2md] Storing a snapshot failed, sharing the live link:', err);
+      return shareUrl;
+    }
+  };
+
   const share = async () => {
+    const url = await shareLink();
     if (navigator.share) {
       try {
-        await navigator.share({ title, url: shareUrl });
+        await navigator.share({ title, url });
       } catch (err) {
         // User cancelled or share failed — ignore AbortError
         if (err instanceof Error && err.name !== 'AbortError') {
@@ -28,69 +149,33 @@ export function MarkdownPreview({ markdown, shareUrl, title }: MarkdownPreviewPr
         }
       }
     } else {
-      await navigator.clipboard.writeText(shareUrl);
+      await navigator.clipboard.writeText(url);
       setShared(true);
       setTimeout(() => setShared(false), 2000);
     }
   };
 
-  const decodeHTML = (text: string): string => {
-    const el = document.createElement('textarea');
-    el.innerHTML = text;
-    return el.value;
-  };
-
-  const renderMarkdown = (text: string) => {
-    return text.split('\n').map((raw, i) => {
-      const line = decodeHTML(raw);
-      if (line.startsWith('# ')) return <h1 key={i}>{line.slice(2)}</h1>;
-      if (line.startsWith('## ')) return <h2 key={i}>{line.slice(3)}</h2>;
-      if (line.startsWith('**') && line.endsWith('**'))
-        return <strong key={i} className="block mb-1">{line.slice(2, -2)}</strong>;
-      if (line.startsWith('*') && line.endsWith('*'))
-        return <em key={i} className="block mb-1">{line.slice(1, -1)}</em>;
-      if (line === '---') return <hr key={i} />;
-      if (line.trim().startsWith('>')) {
-        const match = line.match(/^((?:>\s?)+)\s*(.*)$/);
-        if (match) {
-          const level = (match[1].match(/>/g) || []).length;
-          const content = match[2];
-          const trimmed = content.trim();
-          const inner = /^\*\*u\/.+\*\*$/.test(trimmed)
-            ? <strong>{trimmed.slice(2, -2)}</strong>
-            : <p>{content}</p>;
-          let node: JSX.Element = inner;
-          for (let j = 0; j < level; j++) {
-            node = <blockquote key={`${i}-${j}`}>{node}</blockquote>;
-          }
-          return node;
-        }
-      }
-      return line ? <p key={i}>{line}</p> : <br key={i} />;
-    });
-  };
-
   return (
     <div className="fade-in">
       <div className="preview-controls">
         <div className="preview-tabs">
-          <button
-            onClick={() => setShowRaw(false)}
-            className={`btn-tab ${!showRaw ? 'active' : ''}`}
-          >
-            Rendered
-          </button>
-          <button
-            onClick={() => setShowRaw(true)}
-            className={`btn-tab ${showRaw ? 'active' : ''}`}
-          >
-            Raw
-          </button>
+          {views.map(([tab, label]) => (
+            <button
+              key={tab}
+              onClick={() => setView(tab)}
+              className={`btn-tab ${view === tab ? 'active' : ''}`}
+            >
+              {label}
+            </button>
+          ))}
         </div>
         <div className="preview-tabs">
-          <button onClick={copyToClipboard} className="btn-tab">
+          <button onClick={copyToClipboard} disabled={output === null} className="btn-tab">
             {copied ? 'Copied' : 'Copy'}
           </button>
+          <button onClick={download} disabled={output === null} className="btn-tab">
+            Download
+          </button>
           {shareUrl && (
             <button onClick={share} className="btn-tab">
               {shared ? 'Copied' : 'Share'}
@@ -100,10 +185,28 @@ export function MarkdownPreview({ markdown, shareUrl, title }: MarkdownPreviewPr
       </div>
 
       <div className="preview-body">
-        {showRaw ? (
-          <pre className="raw-output">{markdown}</pre>
+        {view === 'rendered' ? (
+          <RenderedMarkdown markdown={markdown} layout={options.layout} />
+        ) : view === 'tree' && filtered ? (
+          <>
+            <div className="preview-tabs tree-controls">
+              <span className="tree-count">{selected.size} selected</span>
+              <button onClick={copySelection} disabled={selected.size === 0} className="btn-tab">
+                {copiedSelection ? 'Copied' : 'Copy selected'}
+              </button>
+              <button onClick={() => setSelected(new Set())} disabled={selected.size === 0} className="btn-tab">
+                Clear
+              </button>
+            </div>
+            <CommentTree
+              comments={filtered.comments}
+              options={options}
+              selected={selected}
+              onToggleSelected={toggleSelected}
+            />
+          </>
         ) : (
-          <div className="md-rendered">{renderMarkdown(markdown)}</div>
+          <pre className="raw-output">{output ?? 'Loading\u2026'}</pre>
         )}
       </div>
     </div>
@@ -1,20 +1,87 @@
 import React, { useEffect, useRef, useState } from 'react';
+import {
+  COMMENT_LAYOUTS,
+  DEFAULT_DIGEST_COMMENTS,
+  DEFAULT_DIGEST_THREADS,
+  DEFAULT_HISTORY_PAGES,
+  MAX_DIGEST_COMMENTS,
+  MAX_DIGEST_THREADS,
+  MAX_HISTORY_PAGES,
+  METADATA_FIELDS,
+  isCommentLayout,
+  parseAuthorList,
+  parseFrontMatterFields,
+  type CommentLayout,
+  type ConvertOptions,
+  type MetadataField,
+} from '../../shared/converter';
+import type { ExpandProgress } from '../../shared/expand';
+import {
+  COMMENT_SORTS,
+  describeHistory,
+  isCommentSort,
+  MAX_COMMENT_CONTEXT,
+  MAX_COMMENT_LIMIT,
+  normaliseRedditUrl,
+  parseHistoryUrl,
+  parseListingUrl,
+  type CommentSort,
+} from '../../shared/thread-url';
+import { MAX_BATCH_URLS, parseBatchUrls } from '../batch';
+import { convertUrl, ConvertError, type ConvertExtras, type PreviewResult } from '../convert';
+import { BatchQueue } from './BatchQueue';
 
 interface RedditFormProps {
   url: string;
   onUrlChange: (url: string) => void;
-  onSubmit: (result: { markdown: string; title: string }) => void;
+  options: ConvertOptions;
+  onOptionsChange: (options: ConvertOptions) => void;
+  /** Called with the result and the canonical URL it was converted from */
+  onSubmit: (result: PreviewResult, url: string) => void;
   compact?: boolean;
   onClear?: () => void;
   autoConvert?: boolean;
 }
 
+const SORT_LABELS: Record<CommentSort, string> = {
+  best: 'Best',
+  top: 'Top',
+  new: 'New',
+  controversial: 'Controversial',
+  old: 'Old',
+  qa: 'Q&A',
+};
+
+const LAYOUT_LABELS: Record<CommentLayout, string> = {
+  quote: 'Quotes',
+  bullets: 'Bullets',
+  headings: 'Headings',
+  flat: 'Flat',
+  details: 'Collapsible',
+};
+
+const METADATA_LABELS: Record<MetadataField, string> = {
+  badges: 'Badges',
+  score: 'Score',
+  date: 'Date',
+  edited: 'Edited',
+  permalink: 'Permalink',
+};
+
+/** Parse a number input, treating an empty field as "no limit" */
+function numberOrNull(value: string): number | null {
+  const n = parseInt(value, 10);
+  return Number.isNaN(n) ? null : n;
+}
+
 function titleFromSlug(url: string): string | null {
   try {
     const segments = new URL(url).pathname.split('/').filter(Boolean);
-    // /r/<sub>/comments/<id>/<slug>
-    const slug = segments[4];
-    if (!slug) return null;
+    // [/r/<sub>]/comments/<id>/<slug>; share links have no slug until resolved
+    const comments = segments.indexOf('comments');
+    const slug = comments >= 0 ? segments[comments + 2] : undefined;
+    // New Reddit's comment links use "comment" in place of the slug
+    if (!slug || slug === 'comment') return null;
     const title = slug.replace(/_/g, ' ');
     return title.charAt(0).toUpperCase() + title.slice(1);
   } catch {
@@ -22,136 +89,99 @@ function titleFromSlug(url: string): string | null {
   }
 }
 
-export function RedditForm({ url, onUrlChange, onSubmit, compact, onClear, autoConvert }: RedditFormProps) {
+function progressHint({ loaded, remaining }: ExpandProgress): string {
+  return `Loading more comments\u2026 ${loaded.toLocaleString()} loaded, ${remaining.toLocaleString()} to go`;
+}
+
+export function RedditForm({
+  url, onUrlChange, options, onOptionsChange, onSubmit, compact, onClear, autoConvert,
+}: RedditFormProps) {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
+  // The Worker's ID for the failed request, for quoting in bug reports
+  const [errorRequestId, setErrorRequestId] = useState<string | null>(null);
+  const [progress, setProgress] = useState<ExpandProgress | null>(null);
+  // Null sends nothing, so the Worker's defaults apply
+  const [digestThreads, setDigestThreads] = useState<number | null>(null);
+  const [digestComments, setDigestComments] = useState<number | null>(null);
+  const [historyPages, setHistoryPages] = useState<number | null>(null);
+  // Raw text so typing a trailing comma or space isn't undone on re-render
+  const [excludeText, setExcludeText] = useState(options.excludeAuthors.join(', '));
+  const [frontMatterText, setFrontMatterText] = useState(
+    options.frontMatterFields.map(({ key, value }) => `${key}: ${value}`).join('\n'),
+  );
   const hasAutoConverted = useRef(false);
-
-  const processComment = (comment: any, depth = 0): string => {
-    const indent = "> ".repeat(depth);
-    let mdComment = `${indent}**u/${comment.data.author}**\n`;
-
-    const commentBody = comment.data.body
-      .split('\n')
-      .map((line: string) => `${indent}${line}`)
-      .join('\n');
-    mdComment += `${commentBody}\n\n`;
-
-    if (comment.data.replies?.data?.children) {
-      comment.data.replies.data.children.forEach((child: any) => {
-        if (child.kind === 't1') {
-          mdComment += processComment(child, depth + 1);
-        }
-      });
-    }
-
-    return mdComment;
-  };
+  const [batchMode, setBatchMode] = useState(false);
+  const [batchText, setBatchText] = useState('');
+  // Each run gets a fresh queue; options are fixed when it starts
+  const [batch, setBatch] = useState<{
+    run: number; urls: string[]; options: ConvertOptions; extras: ConvertExtras;
+  } | null>(null);
 
   const convert = async () => {
     setLoading(true);
     setError('');
+    setErrorRequestId(null);
+    setProgress(null);
 
     try {
-      let data: any;
-
-      // Try direct fetch first (user's own IP, distributed rate limit).
-      // cache: 'no-store' bypasses Safari's HTTP cache, which can contain
-      // non-CORS responses from prior reddit.com visits that block fetch().
-      const cleanUrl = url.replace(/\/?(\?.*)?$/, '');
-      const jsonUrl = cleanUrl + '.json';
-
-      try {
-        const directRes = await fetch(jsonUrl, { cache: 'no-store' });
-        if (!directRes.ok) throw new Error(`HTTP ${directRes.status}`);
-        data = await directRes.json();
-      } catch (directErr) {
-        // Direct failed (e.g. CORS on iOS Safari) — fall back to proxy
-        console.warn('[r2md] Direct fetch failed, using proxy:', directErr);
-
-        const proxyUrl = `${import.meta.env.BASE_URL}api/fetch?url=${encodeURIComponent(url)}`;
-
-        let response: Response;
-        try {
-          response = await fetch(proxyUrl);
-        } catch (fetchErr) {
-          console.error('[r2md] Proxy fetch failed:', fetchErr);
-          setError('Network error — could not reach the server');
-          return;
-        }
-
-        // Proxy returns structured JSON errors for non-200 responses
-        if (!response.ok) {
-          let errorBody: { error?: string; message?: string } = {};
-          try {
-            errorBody = await response.json();
-          } catch {
-            // non-JSON error response
-          }
-          const code = errorBody.error || 'unknown';
-          console.error(`[r2md] Proxy error: ${response.status} ${code}`);
-
-          const messages: Record<string, string> = {
-            rate_limited: 'Reddit is rate-limiting requests — try again in a minute',
-            upstream_forbidden: 'Reddit blocked this request — try again later',
-            upstream_timeout: 'Reddit took too long to respond — try again',
-            upstream_unreachable: 'Could not reach Reddit — try again later',
-            upstream_error: errorBody.message || 'Reddit returned an error',
-            upstream_parse_error: 'Got an unexpected response from Reddit',
-            response_too_large: 'That thread is too large to convert',
-            invalid_url: 'That doesn\u2019t look like a valid URL',
-            invalid_path: 'That doesn\u2019t look like a Reddit thread URL',
-            host_not_allowed: 'Only Reddit URLs are supported',
-          };
-          setError(messages[code] || errorBody.message || `Something went wrong (${code})`);
-          return;
-        }
-
-        const contentType = response.headers.get('content-type') || '';
-        if (!contentType.includes('application/json')) {
-          console.error(`[r2md] Expected JSON but got content-type: ${contentType}`);
-          setError('Got an unexpected response from the server');
-          return;
-        }
-
-        try {
-          data = await response.json();
-        } catch (parseErr) {
-          console.error('[r2md] JSON parse failed:', parseErr);
-          setError('Got an invalid response from the server');
-          return;
-        }
-      }
-
-      if (!Array.isArray(data) || !data[0]?.data?.children?.[0]?.data) {
-        console.error('[r2md] Unexpected JSON shape:', JSON.stringify(data).slice(0, 200));
-        setError('Unexpected response — is this a Reddit thread URL?');
-        return;
-      }
-
-      const post = data[0].data.children[0].data;
-      let md = `# ${post.title}\n\n`;
-      md += `*Posted by u/${post.author}*\n\n`;
-      md += `${post.selftext}\n\n---\n\n`;
-
-      data[1].data.children.forEach((comment: any) => {
-        if (comment.kind === 't1') {
-          md += processComment(comment, 0);
-        }
+      const converted = await convertUrl(url, options, {
+        digestThreads, digestComments, historyPages, onProgress: setProgress,
       });
-
-      onSubmit({ markdown: md, title: post.title });
+      if (converted.url !== url) onUrlChange(converted.url);
+      onSubmit(converted.result, converted.url);
     } catch (err) {
-      console.error('[r2md] Unexpected error:', err);
-      setError(`Unexpected error: ${err instanceof Error ? err.message : String(err)}`);
+      if (err instanceof ConvertError) {
+        setError(err.message);
+        setErrorRequestId(err.requestId ?? null);
+      } else {
+        console.error('[r2md] Unexpected error:', err);
+        setError(`Unexpected error: ${err instanceof Error ? err.message : String(err)}`);
+      }
     } finally {
       setLoading(false);
+      setProgress(null);
     }
   };
 
+  const toggleMetadata = (field: MetadataField, on: boolean) => {
+    const metadata = on
+      ? METADATA_FIELDS.filter(f => f === field || options.metadata.includes(f))
+      : options.metadata.filter(f => f !== field);
+    onOptionsChange({ ...options, metadata });
+  };
+
+  const setExclude = (text: string) => {
+    setExcludeText(text);
+    onOptionsChange({ ...options, excludeAuthors: parseAuthorList(text) });
+  };
+
+  const setFrontMatterFields = (text: string) => {
+    setFrontMatterText(text);
+    onOptionsChange({ ...options, frontMatterFields: parseFrontMatterFields(text.split('\n')) });
+  };
+
+  const listing = parseListingUrl(normaliseRedditUrl(url.trim()));
+  const history = parseHistoryUrl(normaliseRedditUrl(url.trim()));
+
+  const batchUrls = parseBatchUrls(batchText);
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    convert();
+    setErrorRequestId(null);
+    if (!batchMode) {
+      convert();
+    } else if (batchUrls.length > MAX_BATCH_URLS) {
+      setError(`Paste at most ${MAX_BATCH_URLS} URLs at a time`);
+    } else {
+      setError('');
+      setBatch(prev => ({
+        run: (prev?.run ?? 0) + 1,
+        urls: batchUrls,
+        options,
+        extras: { digestThreads, digestComments, historyPages },
+      }));
+    }
   };
 
   useEffect(() => {
@@ -162,29 +192,261 @@ export function RedditForm({ url, onUrlChange, onSubmit, compact, onClear, autoC
   }, []);
 
   return (
-    <form onSubmit={handleSubmit} className={compact ? 'form-compact' : ''}>
-      <div className="form-row">
-        <input
-          type="url"
-          value={url}
-          onChange={(e) => onUrlChange(e.target.value)}
-          placeholder="https://reddit.com/r/..."
-          required
-          className="form-input"
-        />
-        <button type="submit" disabled={loading} className="btn-primary">
-          {loading ? 'Converting\u2026' : 'Convert \u2192'}
-        </button>
-        {compact && onClear && (
-          <button type="button" onClick={onClear} className="btn-text">
-            Clear
+    <>
+      <form onSubmit={handleSubmit} className={compact ? 'form-compact' : ''}>
+        <div className="form-row">
+          {batchMode ? (
+            <textarea
+              value={batchText}
+              onChange={(e) => setBatchText(e.target.value)}
+              placeholder={'https://reddit.com/r/...\nhttps://reddit.com/r/...'}
+              aria-label="Reddit URLs, one per line"
+              required
+              rows={6}
+              className="form-input form-textarea"
+            />
+          ) : (
+            <input
+              type="url"
+              value={url}
+              onChange={(e) => onUrlChange(e.target.value)}
+              placeholder="https://reddit.com/r/..."
+              required
+              className="form-input"
+            />
+          )}
+          <button type="submit" disabled={loading} className="btn-primary">
+            {batchMode
+              ? `Convert ${batchUrls.length > 1 ? `all ${batchUrls.length} ` : ''}\u2192`
+              : loading ? 'Converting\u2026' : 'Convert \u2192'}
           </button>
+          {!compact && (
+            <button type="button" onClick={() => setBatchMode(!batchMode)} className="btn-text">
+              {batchMode ? 'Single' : 'Batch'}
+            </button>
+          )}
+          {compact && onClear && (
+            <button type="button" onClick={onClear} className="btn-text">
+              Clear
+            </button>
+          )}
+        </div>
+        {!batchMode && listing && (
+          <div className="form-options">
+            <label className="form-field" title="Threads from the listing; stickied posts are skipped">
+              Threads
+              <input
+                type="number"
+                min={1}
+                max={MAX_DIGEST_THREADS}
+                value={digestThreads ?? ''}
+                placeholder={String(DEFAULT_DIGEST_THREADS)}
+                onChange={(e) => setDigestThreads(numberOrNull(e.target.value))}
+                className="form-input-small"
+              />
+            </label>
+            <label className="form-field" title="Top comments shown under each thread">
+              Comments
+              <input
+                type="number"
+                min={0}
+                max={MAX_DIGEST_COMMENTS}
+                value={digestComments ?? ''}
+                placeholder={String(DEFAULT_DIGEST_COMMENTS)}
+                onChange={(e) => setDigestComments(numberOrNull(e.target.value))}
+                className="form-input-small"
+              />
+            </label>
+          </div>
+        )}
+        {!batchMode && history && (
+          <div className="form-options">
+            <label className="form-field" title="Pages of 100 items to load, newest first">
+              Pages
+              <input
+                type="number"
+                min={1}
+                max={MAX_HISTORY_PAGES}
+                value={historyPages ?? ''}
+                placeholder={String(DEFAULT_HISTORY_PAGES)}
+                onChange={(e) => setHistoryPages(numberOrNull(e.target.value))}
+                className="form-input-small"
+              />
+            </label>
+          </div>
+        )}
+        <div className="form-options">
+          <label className="form-field">
+            Sort
+            <select
+              value={options.sort ?? ''}
+              onChange={(e) => {
+                const sort = e.target.value;
+                onOptionsChange({ ...options, sort: isCommentSort(sort) ? sort : null });
+              }}
+              className="form-input-small form-select-small"
+            >
+              <option value="">Default</option>
+              {COMMENT_SORTS.map(sort => (
+                <option key={sort} value={sort}>{SORT_LABELS[sort]}</option>
+              ))}
+            </select>
+          </label>
+          <label className="form-field">
+            Limit
+            <input
+              type="number"
+              min={1}
+              max={MAX_COMMENT_LIMIT}
+              value={options.limit ?? ''}
+              onChange={(e) => onOptionsChange({ ...options, limit: numberOrNull(e.target.value) })}
+              className="form-input-small"
+            />
+          </label>
+          <label className="form-field" title="Parent comments shown above a linked comment">
+            Context
+            <input
+              type="number"
+              min={0}
+              max={MAX_COMMENT_CONTEXT}
+              value={options.context ?? ''}
+              onChange={(e) => onOptionsChange({ ...options, context: numberOrNull(e.target.value) })}
+              className="form-input-small"
+            />
+          </label>
+          <label className="form-field">
+            Layout
+            <select
+              value={options.layout}
+              onChange={(e) => {
+                const layout = e.target.value;
+                if (isCommentLayout(layout)) onOptionsChange({ ...options, layout });
+              }}
+              className="form-input-small form-select-small"
+            >
+              {COMMENT_LAYOUTS.map(layout => (
+                <option key={layout} value={layout}>{LAYOUT_LABELS[layout]}</option>
+              ))}
+            </select>
+          </label>
+          <label className="form-check">
+            <input
+              type="checkbox"
+              checked={options.fullThread}
+              onChange={(e) => onOptionsChange({ ...options, fullThread: e.target.checked })}
+            />
+            Full thread
+          </label>
+          {METADATA_FIELDS.map(field => (
+            <label key={field} className="form-check">
+              <input
+                type="checkbox"
+                checked={options.metadata.includes(field)}
+                onChange={(e) => toggleMetadata(field, e.target.checked)}
+              />
+              {METADATA_LABELS[field]}
+            </label>
+          ))}
+        </div>
+        <div className="form-options">
+          <label className="form-field">
+            Min score
+            <input
+              type="number"
+              value={options.minScore ?? ''}
+              onChange={(e) => onOptionsChange({ ...options, minScore: numberOrNull(e.target.value) })}
+              className="form-input-small"
+            />
+          </label>
+          <label className="form-field">
+            Max depth
+            <input
+              type="number"
+              min={0}
+              value={options.maxDepth ?? ''}
+              onChange={(e) => onOptionsChange({ ...options, maxDepth: numberOrNull(e.target.value) })}
+              className="form-input-small"
+            />
+          </label>
+          <label className="form-field">
+            Top
+            <input
+              type="number"
+              min={1}
+              value={options.topLevelLimit ?? ''}
+              onChange={(e) => onOptionsChange({ ...options, topLevelLimit: numberOrNull(e.target.value) })}
+              className="form-input-small"
+            />
+          </label>
+          <label className="form-field">
+            Exclude
+            <input
+              type="text"
+              value={excludeText}
+              onChange={(e) => setExclude(e.target.value)}
+              placeholder="u/name, u/other"
+              className="form-input-small form-input-small--wide"
+            />
+          </label>
+          <label className="form-check">
+            <input
+              type="checkbox"
+              checked={options.excludeBots}
+              onChange={(e) => onOptionsChange({ ...options, excludeBots: e.target.checked })}
+            />
+            Hide bots
+          </label>
+          <label className="form-check">
+            <input
+              type="checkbox"
+              checked={options.excludeDeleted}
+              onChange={(e) => onOptionsChange({ ...options, excludeDeleted: e.target.checked })}
+            />
+            Hide deleted
+          </label>
+        </div>
+        <div className="form-options">
+          <label className="form-check" title="Source URL, subreddit, author, dates, score and comment count as YAML">
+            <input
+              type="checkbox"
+              checked={options.frontMatter}
+              onChange={(e) => onOptionsChange({ ...options, frontMatter: e.target.checked })}
+            />
+            Front matter
+          </label>
+          {options.frontMatter && (
+            <label className="form-field">
+              Extra keys
+              <textarea
+                value={frontMatterText}
+                onChange={(e) => setFrontMatterFields(e.target.value)}
+                placeholder="tags: [reddit, research]"
+                rows={2}
+                className="form-input-small form-input-small--wide form-textarea"
+              />
+            </label>
+          )}
+        </div>
+        {loading && progress && <p className="loading-hint">{progressHint(progress)}</p>}
+        {loading && listing && (
+          <p className="loading-hint">Loading threads from r/{listing.subreddit}&hellip;</p>
+        )}
+        {loading && history && (
+          <p className="loading-hint">Loading {describeHistory(history).toLowerCase()}&hellip;</p>
+        )}
+        {loading && !progress && titleFromSlug(url) && (
+          <p className="loading-hint">Converting &ldquo;{titleFromSlug(url)}&rdquo;&hellip;</p>
+        )}
+        {error && (
+          <p className="error-msg">
+            {error}
+            {errorRequestId && <span className="error-request-id">Request ID: {errorRequestId}</span>}
+          </p>
         )}
-      </div>
-      {loading && titleFromSlug(url) && (
-        <p className="loading-hint">Converting &ldquo;{titleFromSlug(url)}&rdquo;&hellip;</p>
+      </form>
+      {batch && (
+        <BatchQueue key={batch.run} urls={batch.urls} options={batch.options} extras={batch.extras} />
       )}
-      {error && <p className="error-msg">{error}</p>}
-    </form>
+    </>
   );
 }
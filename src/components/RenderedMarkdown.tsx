@@ -0,0 +1,36 @@
+import Markdown, { type Components } from 'react-markdown';
+import rehypeRaw from 'rehype-raw';
+import rehypeSanitize from 'rehype-sanitize';
+import remarkFrontmatter from 'remark-frontmatter';
+import remarkGfm from 'remark-gfm';
+import type { CommentLayout } from '../../shared/converter';
+
+// Raw HTML is parsed so the "details" layout and superscripts render, then
+// sanitised with GitHub's allow-list: no scripts, styles, event handlers or
+// `javascript:` URLs survive.
+// YAML front matter is parsed so it isn't shown as a rule and a heading
+const REMARK_PLUGINS = [remarkGfm, remarkFrontmatter];
+const REHYPE_PLUGINS = [rehypeRaw, rehypeSanitize];
+
+const COMPONENTS: Components = {
+  a: ({ href, title, children }) => (
+    <a href={href} title={title} target="_blank" rel="noopener noreferrer">{children}</a>
+  ),
+};
+
+interface RenderedMarkdownProps {
+  markdown: string;
+  /** The layout the markdown was converted with, for layout-specific styles */
+  layout: CommentLayout;
+}
+
+/** Converted markdown as CommonMark + GFM, in the Bureau styles */
+export function RenderedMarkdown({ markdown, layout }: RenderedMarkdownProps) {
+  return (
+    <div className={`md-rendered md-layout-${layout}`}>
+      <Markdown remarkPlugins={REMARK_PLUGINS} rehypePlugins={REHYPE_PLUGINS} components={COMPONENTS}>
+        {markdown}
+      </Markdown>
+    </div>
+  );
+}
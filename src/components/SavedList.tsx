@@ -0,0 +1,69 @@
+import { useEffect, useState } from 'react';
+import { deleteSaved, loadSaved, searchSaved, type SavedConversion } from '../saved';
+
+interface SavedListProps {
+  onOpen: (conversion: SavedConversion) => void;
+}
+
+/** Past conversions, searchable, each reopened from storage without a fetch */
+export function SavedList({ onOpen }: SavedListProps) {
+  const [saved, setSaved] = useState<SavedConversion[]>([]);
+  const [query, setQuery] = useState('');
+
+  useEffect(() => {
+    let current = true;
+    loadSaved().then(conversions => {
+      if (current) setSaved(conversions);
+    });
+    return () => { current = false; };
+  }, []);
+
+  const remove = async (url: string) => {
+    await deleteSaved(url);
+    setSaved(prev => prev.filter(conversion => conversion.url !== url));
+  };
+
+  if (saved.length === 0) return null;
+  const matches = searchSaved(saved, query);
+
+  return (
+    <section className="saved" aria-label="History">
+      <div className="saved-header">
+        <h2 className="saved-heading">History</h2>
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search titles, URLs and text"
+          aria-label="Search history"
+          className="form-input-small form-input-small--wide"
+        />
+      </div>
+      {matches.length === 0 ? (
+        <p className="saved-empty">Nothing matches &ldquo;{query}&rdquo;.</p>
+      ) : (
+        <ul className="saved-list">
+          {matches.map(conversion => (
+            <li key={conversion.url} className="saved-item">
+              <button onClick={() => onOpen(conversion)} className="saved-open">
+                {conversion.title}
+              </button>
+              <span className="saved-meta">
+                {new Date(conversion.savedAt).toLocaleDateString(undefined, { dateStyle: 'medium' })}
+                {' · '}
+                {conversion.url.replace(/^https:\/\/www\.reddit\.com/, '')}
+              </span>
+              <button
+                onClick={() => remove(conversion.url)}
+                className="btn-text"
+                aria-label={`Delete ${conversion.title}`}
+              >
+                Delete
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,233 @@
+// Fetching and converting one URL, shared by the form and the batch queue.
+
+import {
+  focusThread,
+  optionsToParams,
+  parseThread,
+  type ConvertOptions,
+  type Thread,
+} from '../shared/converter';
+import {
+  DEFAULT_RATE_LIMIT_BURST,
+  expandThread,
+  type ExpandProgress,
+  type ExpandSource,
+} from '../shared/expand';
+import {
+  describeHistory,
+  describeListing,
+  focusFromUrl,
+  isShareLink,
+  normaliseRedditUrl,
+  parseHistoryUrl,
+  parseListingUrl,
+  threadJsonUrl,
+  withThreadQuery,
+} from '../shared/thread-url';
+
+// Each request resolves up to 100 comments. Staying under the Worker's
+// per-client burst, with room for the thread itself and a share link's
+// hops, keeps a conversion through the proxy from being cut short by a 429.
+const MAX_EXPAND_REQUESTS = DEFAULT_RATE_LIMIT_BURST - 5;
+
+/** A converted thread, with the options it was converted with */
+export interface ConvertResult {
+  thread: Thread;
+  options: ConvertOptions;
+}
+
+/** A subreddit digest or a user's history, which the Worker fetches and renders */
+export interface MarkdownResult {
+  title: string;
+  markdown: string;
+  options: ConvertOptions;
+}
+
+export type PreviewResult = ConvertResult | MarkdownResult;
+
+/** The title a result is shown and saved under */
+export function resultTitle(result: PreviewResult): string {
+  return 'thread' in result ? result.thread.post.title : result.title;
+}
+
+/** Settings for digests and user histories; null sends nothing, so the Worker's defaults apply */
+export interface ConvertExtras {
+  digestThreads?: number | null;
+  digestComments?: number | null;
+  historyPages?: number | null;
+  onProgress?: (progress: ExpandProgress) => void;
+}
+
+/**
+ * A failed conversion. `code` is the Worker's error code where it sent one,
+ * so callers can tell a rate limit from a bad link; `message` is for people.
+ * `requestId` identifies the Worker request, for users to quote in reports.
+ */
+export class ConvertError extends Error {
+  constructor(readonly code: string, message: string, readonly requestId?: string) {
+    super(message);
+    this.name = 'ConvertError';
+  }
+}
+
+// Messages for the Worker's structured error codes
+const PROXY_ERROR_MESSAGES: Record<string, string> = {
+  rate_limited: 'Reddit is rate-limiting requests — try again in a minute',
+  too_many_requests: 'Too many conversions from your connection — wait a minute and try again',
+  upstream_forbidden: 'Reddit blocked this request — try again later',
+  upstream_timeout: 'Reddit took too long to respond — try again',
+  upstream_unreachable: 'Could not reach Reddit — try again later',
+  upstream_parse_error: 'Got an unexpected response from Reddit',
+  response_too_large: 'That thread is too large to convert',
+  invalid_url: 'That doesn\u2019t look like a valid URL',
+  invalid_path: 'That doesn\u2019t look like a Reddit thread, subreddit or user URL',
+  host_not_allowed: 'Only Reddit URLs are supported',
+  unresolved_link: 'Couldn\u2019t work out which thread that link points to',
+  redirect_not_allowed: 'That link leads away from Reddit',
+  too_many_redirects: 'That link redirects too many times',
+};
+
+/** The error for a non-200 Worker response */
+async function proxyError(response: Response): Promise<ConvertError> {
+  let errorBody: { error?: string; message?: string; requestId?: string } = {};
+  try {
+    errorBody = await response.json();
+  } catch {
+    // non-JSON error response
+  }
+  const code = errorBody.error || 'unknown';
+  const requestId = errorBody.requestId || response.headers.get('X-Request-Id') || undefined;
+  console.error(`[r2md] Proxy error: ${response.status} ${code} (request ${requestId ?? 'unknown'})`);
+
+  if (code === 'upstream_error') {
+    return new ConvertError(code, errorBody.message || 'Reddit returned an error', requestId);
+  }
+  return new ConvertError(
+    code,
+    PROXY_ERROR_MESSAGES[code] || errorBody.message || `Something went wrong (${code})`,
+    requestId,
+  );
+}
+
+/** Fetch from the Worker, failing with its error code on a non-200 response */
+async function fetchWorker(path: string): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetch(`${import.meta.env.BASE_URL}${path}`);
+  } catch (fetchErr) {
+    console.error('[r2md] Worker request failed:', fetchErr);
+    throw new ConvertError('network_error', 'Network error — could not reach the server');
+  }
+  if (!response.ok) throw await proxyError(response);
+  return response;
+}
+
+async function fetchProxyJson(path: string): Promise<unknown> {
+  const response = await fetchWorker(path);
+  return response.json();
+}
+
+// "Load more" requests always go through the Worker: /api/morechildren
+// has no CORS headers, and batching them there shares the edge cache.
+const proxyExpandSource: ExpandSource = {
+  moreChildren: (linkId, ids) =>
+    fetchProxyJson(`api/more?link=${linkId}&children=${ids.join(',')}`),
+  commentThread: (permalink) =>
+    fetchProxyJson(`api/fetch?url=${encodeURIComponent(`https://www.reddit.com${permalink}`)}`),
+};
+
+/** A thread's JSON: direct from Reddit where the browser allows it, otherwise through the Worker */
+async function fetchThreadJson(targetUrl: string): Promise<unknown> {
+  // Try direct fetch first (user's own IP, distributed rate limit).
+  // cache: 'no-store' bypasses Safari's HTTP cache, which can contain
+  // non-CORS responses from prior reddit.com visits that block fetch().
+  try {
+    const directRes = await fetch(threadJsonUrl(targetUrl), { cache: 'no-store' });
+    if (!directRes.ok) throw new Error(`HTTP ${directRes.status}`);
+    return await directRes.json();
+  } catch (directErr) {
+    // Direct failed (e.g. CORS on iOS Safari) — fall back to proxy
+    console.warn('[r2md] Direct fetch failed, using proxy:', directErr);
+  }
+
+  const response = await fetchWorker(`api/fetch?url=${encodeURIComponent(targetUrl)}`);
+  const contentType = response.headers.get('content-type') || '';
+  if (!contentType.includes('application/json')) {
+    console.error(`[r2md] Expected JSON but got content-type: ${contentType}`);
+    throw new ConvertError('unexpected_response', 'Got an unexpected response from the server');
+  }
+  try {
+    return await response.json();
+  } catch (parseErr) {
+    console.error('[r2md] JSON parse failed:', parseErr);
+    throw new ConvertError('invalid_response', 'Got an invalid response from the server');
+  }
+}
+
+/**
+ * Fetch and convert a thread, subreddit digest or user history. Resolves
+ * with the canonical URL the input stands for, and throws ConvertError.
+ */
+export async function convertUrl(
+  input: string,
+  options: ConvertOptions,
+  extras: ConvertExtras = {},
+): Promise<{ url: string; result: PreviewResult }> {
+  let url = normaliseRedditUrl(input.trim());
+
+  // Subreddit digests and user histories take many requests, so the
+  // Worker builds them, fetching in parallel and sharing the edge cache
+  const listing = parseListingUrl(url);
+  const history = parseHistoryUrl(url);
+  if (listing || history) {
+    const query = optionsToParams(options);
+    query.set('url', url);
+    if (listing && extras.digestThreads != null) query.set('threads', String(extras.digestThreads));
+    if (listing && extras.digestComments != null) query.set('comments', String(extras.digestComments));
+    if (history && extras.historyPages != null) query.set('pages', String(extras.historyPages));
+
+    const response = await fetchWorker(`api/${listing ? 'digest' : 'markdown'}?${query}`);
+    const title = listing ? describeListing(listing) : describeHistory(history!);
+    return { url, result: { title, markdown: await response.text(), options } };
+  }
+
+  // Share links only redirect to their thread, which the browser can't
+  // follow cross-origin; the Worker resolves them. Either way the result
+  // carries the canonical URL, which the share link is built from.
+  if (isShareLink(url)) {
+    const response = await fetchWorker(`api/resolve?url=${encodeURIComponent(url)}`);
+    url = ((await response.json()) as { url: string }).url;
+  }
+
+  // The chosen sort, limit and context override the pasted URL's own
+  const targetUrl = withThreadQuery(url, options);
+  const data = await fetchThreadJson(targetUrl);
+
+  let thread = parseThread(data);
+  if (!thread) {
+    console.error('[r2md] Unexpected JSON shape:', JSON.stringify(data).slice(0, 200));
+    throw new ConvertError('not_a_thread', 'Unexpected response — is this a Reddit thread URL?');
+  }
+  thread = { ...thread, retrievedUtc: Math.floor(Date.now() / 1000) };
+
+  // A comment permalink converts only that comment's branch
+  const focus = focusFromUrl(targetUrl);
+  if (focus) {
+    thread = focusThread(thread, focus.commentId, focus.context);
+    if (!thread) {
+      throw new ConvertError('comment_not_found', 'That comment isn\u2019t in the thread — it may have been deleted');
+    }
+  }
+
+  if (options.fullThread) {
+    const expanded = await expandThread(thread, proxyExpandSource, {
+      maxRequests: MAX_EXPAND_REQUESTS,
+      onProgress: extras.onProgress,
+    });
+    // Keep what loaded; the markdown reports what's still missing
+    if (expanded.error) console.warn('[r2md] Expanding comments stopped early:', expanded.error);
+    thread = expanded.thread;
+  }
+
+  return { url, result: { thread, options } };
+}
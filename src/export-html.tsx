@@ -0,0 +1,53 @@
+// Standalone HTML export: the rendered preview as a self-contained page.
+// Loaded on demand, so react-dom/server stays out of the main bundle.
+
+import { renderToStaticMarkup } from 'react-dom/server';
+import type { CommentLayout } from '../shared/converter';
+import { RenderedMarkdown } from './components/RenderedMarkdown';
+
+// The preview's Bureau styles, trimmed to what the rendered markdown uses
+const EXPORT_CSS = `
+body { margin: 0; background: #F2EDE8; color: #111; font: 15px/1.65 'Space Grotesk', system-ui, sans-serif; }
+main { max-width: 48rem; margin: 0 auto; padding: 2rem 1.5rem 4rem; }
+h1 { font-family: 'Bebas Neue', 'Arial Narrow', Impact, sans-serif; font-size: 2.75rem; line-height: 0.95; text-transform: uppercase; margin: 0 0 1rem; }
+h2, h3, h4, h5, h6 { font-size: 15px; margin: 1.5rem 0 0.25rem; }
+p { margin: 0 0 0.75rem; }
+strong { color: #E63312; font-weight: 600; }
+em { color: #888; }
+a { color: #111; text-decoration-color: #888; text-underline-offset: 2px; }
+hr { border: none; border-top: 2px solid #111; margin: 2rem 0; }
+blockquote, details { border-left: 3px solid #111; padding-left: 1.25rem; margin: 0 0 0.75rem; }
+blockquote blockquote, details details { border-left-color: #E63312; }
+blockquote blockquote blockquote, details details details { border-left-color: #888; }
+summary { cursor: pointer; margin-bottom: 0.5rem; }
+code { font: 13px 'JetBrains Mono', 'Courier New', monospace; background: #EAE5E0; padding: 0.1em 0.3em; }
+pre { background: #EAE5E0; padding: 0.75rem 1rem; overflow-x: auto; }
+pre code { padding: 0; }
+table { border-collapse: collapse; margin-bottom: 0.75rem; }
+th, td { border: 1px solid #111; padding: 0.25rem 0.75rem; text-align: left; }
+img { max-width: 100%; }
+`.trim();
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"]/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[c]!);
+}
+
+/** A complete HTML document for converted markdown, with its styles inlined */
+export function markdownToHtmlDocument(markdown: string, title: string, layout: CommentLayout): string {
+  const body = renderToStaticMarkup(<RenderedMarkdown markdown={markdown} layout={layout} />);
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escapeHtml(title)}</title>`,
+    `<style>\n${EXPORT_CSS}\n</style>`,
+    '</head>',
+    '<body>',
+    `<main>${body}</main>`,
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
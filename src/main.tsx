@@ -8,3 +8,10 @@ createRoot(document.getElementById('root')!).render(
     <App />
   </StrictMode>
 );
+
+// Only built apps have a service worker; it keeps the app and its history usable offline
+if (import.meta.env.PROD && 'serviceWorker' in navigator) {
+  navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`).catch(err => {
+    console.warn('[r2md] Could not register the service worker:', err);
+  });
+}
@@ -0,0 +1,125 @@
+// Past conversions kept in IndexedDB, so a thread can be reopened without
+// fetching it again, even offline. Like the settings, storage can be missing
+// or full (private browsing, quotas): failures are logged and the app carries on.
+
+import { threadToMarkdown, type ConvertOptions, type Thread } from '../shared/converter';
+import { resultTitle, type PreviewResult } from './convert';
+
+const DB_NAME = 'r2md';
+const DB_VERSION = 1;
+const STORE = 'conversions';
+
+// The oldest conversions are dropped past either cap
+export const MAX_SAVED_CONVERSIONS = 100;
+export const MAX_SAVED_BYTES = 20 * 1024 * 1024;
+
+/** A saved conversion; keyed by URL, so converting a thread again replaces it */
+export interface SavedConversion {
+  url: string;
+  title: string;
+  savedAt: number;
+  options: ConvertOptions;
+  markdown: string;
+  // Kept for threads so every view and export works on reopening; null for
+  // digests and user histories, which arrive as markdown
+  thread: Thread | null;
+  // Rough size in bytes, for the storage cap
+  size: number;
+}
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE, { keyPath: 'url' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/** Run one transaction on the store, resolving once it commits */
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  body: (store: IDBObjectStore) => IDBRequest<T> | void,
+): Promise<T | undefined> {
+  const db = await openDb();
+  try {
+    return await new Promise<T | undefined>((resolve, reject) => {
+      const tx = db.transaction(STORE, mode);
+      const request = body(tx.objectStore(STORE));
+      tx.oncomplete = () => resolve(request ? request.result : undefined);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+async function readAll(): Promise<SavedConversion[]> {
+  const all = await withStore<SavedConversion[]>('readonly', store => store.getAll());
+  return (all ?? []).sort((a, b) => b.savedAt - a.savedAt);
+}
+
+/** Saved conversions, newest first; empty when storage is unavailable */
+export async function loadSaved(): Promise<SavedConversion[]> {
+  try {
+    return await readAll();
+  } catch (err) {
+    console.warn('[r2md] Could not load saved conversions:', err);
+    return [];
+  }
+}
+
+/** Save a conversion, then drop the oldest ones past the caps */
+export async function saveConversion(url: string, result: PreviewResult, now = Date.now()): Promise<void> {
+  const entry: Omit<SavedConversion, 'size'> = {
+    url,
+    title: resultTitle(result),
+    savedAt: now,
+    options: result.options,
+    markdown: 'thread' in result ? threadToMarkdown(result.thread, result.options) : result.markdown,
+    thread: 'thread' in result ? result.thread : null,
+  };
+  // UTF-16 in memory; close enough to what the browser stores
+  const saved: SavedConversion = { ...entry, size: JSON.stringify(entry).length * 2 };
+
+  try {
+    await withStore('readwrite', store => { store.put(saved); });
+
+    let total = 0;
+    const expired = (await readAll()).filter((conversion, i) => {
+      total += conversion.size;
+      return i >= MAX_SAVED_CONVERSIONS || (i > 0 && total > MAX_SAVED_BYTES);
+    });
+    if (expired.length > 0) {
+      await withStore('readwrite', store => { for (const { url } of expired) store.delete(url); });
+    }
+  } catch (err) {
+    console.warn('[r2md] Could not save the conversion:', err);
+  }
+}
+
+export async function deleteSaved(url: string): Promise<void> {
+  try {
+    await withStore('readwrite', store => { store.delete(url); });
+  } catch (err) {
+    console.warn('[r2md] Could not delete the saved conversion:', err);
+  }
+}
+
+/** Saved conversions whose title, URL or markdown contain every word of the query */
+export function searchSaved(conversions: SavedConversion[], query: string): SavedConversion[] {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return conversions;
+  return conversions.filter(({ title, url, markdown }) => {
+    const text = `${title}\n${url}\n${markdown}`.toLowerCase();
+    return words.every(word => text.includes(word));
+  });
+}
+
+/** A saved conversion as the preview shows it */
+export function savedResult({ title, markdown, options, thread }: SavedConversion): PreviewResult {
+  return thread ? { thread, options } : { title, markdown, options };
+}
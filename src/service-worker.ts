@@ -0,0 +1,50 @@
+/// <reference lib="webworker" />
+
+// Keeps the built app loadable offline, so saved conversions can be reopened
+// after the tab is closed. The build fills in the files to precache; pages
+// are fetched network first and fall back to the cached shell, other files
+// come from the cache. The Worker's API is never cached here.
+
+declare const self: ServiceWorkerGlobalScope;
+// Replaced by the build (see vite.config.ts): every built file, relative to this script
+declare const __PRECACHE_URLS__: string[];
+declare const __PRECACHE_VERSION__: string;
+
+const CACHE_PREFIX = 'r2md-shell-';
+const CACHE_NAME = `${CACHE_PREFIX}${__PRECACHE_VERSION__}`;
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    caches.open(CACHE_NAME)
+      .then(cache => cache.addAll(__PRECACHE_URLS__))
+      .then(() => self.skipWaiting()),
+  );
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(names => Promise.all(
+        names.filter(name => name.startsWith(CACHE_PREFIX) && name !== CACHE_NAME).map(name => caches.delete(name)),
+      ))
+      .then(() => self.clients.claim()),
+  );
+});
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+  const scope = new URL(self.registration.scope);
+  if (url.origin !== scope.origin || !url.pathname.startsWith(scope.pathname)) return;
+  if (url.pathname.startsWith(`${scope.pathname}api/`)) return;
+
+  if (request.mode === 'navigate') {
+    // Network first, so a new deploy shows straight away
+    event.respondWith(
+      fetch(request).catch(async () => (await caches.match(scope.href, { cacheName: CACHE_NAME })) ?? Response.error()),
+    );
+    return;
+  }
+  event.respondWith(caches.match(request, { cacheName: CACHE_NAME }).then(cached => cached ?? fetch(request)));
+});
@@ -0,0 +1,36 @@
+// Settings kept between sessions in localStorage. Storage can be missing or
+// full (private browsing, quotas), so failures fall back to the defaults.
+
+import { parseFrontMatterFields, type ConvertOptions } from '../shared/converter';
+
+const FRONT_MATTER_KEY = 'r2md:front-matter';
+
+export type FrontMatterSettings = Pick<ConvertOptions, 'frontMatter' | 'frontMatterFields'>;
+
+/** The saved front matter toggle and extra keys, or nothing if none were saved */
+export function loadFrontMatterSettings(): Partial<FrontMatterSettings> {
+  try {
+    const saved: unknown = JSON.parse(localStorage.getItem(FRONT_MATTER_KEY) || 'null');
+    if (typeof saved !== 'object' || saved === null) return {};
+    const { frontMatter, fields } = saved as { frontMatter?: unknown; fields?: unknown };
+    return {
+      frontMatter: frontMatter === true,
+      // Stored as `key: value` lines and re-validated like user input
+      frontMatterFields: Array.isArray(fields)
+        ? parseFrontMatterFields(fields.filter((line): line is string => typeof line === 'string'))
+        : [],
+    };
+  } catch (err) {
+    console.warn('[r2md] Could not load saved front matter settings:', err);
+    return {};
+  }
+}
+
+export function saveFrontMatterSettings({ frontMatter, frontMatterFields }: FrontMatterSettings) {
+  try {
+    const fields = frontMatterFields.map(({ key, value }) => `${key}: ${value}`);
+    localStorage.setItem(FRONT_MATTER_KEY, JSON.stringify({ frontMatter, fields }));
+  } catch (err) {
+    console.warn('[r2md] Could not save front matter settings:', err);
+  }
+}
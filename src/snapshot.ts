@@ -0,0 +1,47 @@
+// Stored snapshots: the Worker keeps a conversion's markdown behind a short
+// link, so whoever opens a shared link sees what the sharer saw.
+
+import { DEFAULT_OPTIONS, isCommentLayout } from '../shared/converter';
+import { ConvertError, type MarkdownResult } from './convert';
+
+const SNAPSHOT_PATH_RE = /\/s\/([A-Za-z0-9]+)\/?$/;
+
+/** The snapshot id in a `/s/<id>` page path, or null for any other page */
+export function snapshotIdFromPath(pathname: string): string | null {
+  return SNAPSHOT_PATH_RE.exec(pathname)?.[1] ?? null;
+}
+
+/** Store a conversion and return its short link */
+export async function createSnapshot(url: string, result: MarkdownResult): Promise<string> {
+  const response = await fetch(`${import.meta.env.BASE_URL}api/snapshot`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ url, title: result.title, markdown: result.markdown, layout: result.options.layout }),
+  });
+  if (!response.ok) throw new Error(`Snapshot returned HTTP ${response.status}`);
+  const { id } = (await response.json()) as { id: string };
+  return `${window.location.origin}${import.meta.env.BASE_URL}s/${id}`;
+}
+
+/** A stored snapshot as the preview shows it, with the Reddit URL it was converted from */
+export async function loadSnapshot(id: string): Promise<{ url: string; result: MarkdownResult }> {
+  let response: Response;
+  try {
+    response = await fetch(`${import.meta.env.BASE_URL}api/snapshot?id=${encodeURIComponent(id)}`);
+  } catch (fetchErr) {
+    console.error('[r2md] Loading the snapshot failed:', fetchErr);
+    throw new ConvertError('network_error', 'Network error — could not reach the server');
+  }
+  if (response.status === 404) {
+    throw new ConvertError('snapshot_not_found', 'This snapshot doesn\u2019t exist or has expired');
+  }
+  if (!response.ok) {
+    throw new ConvertError('unknown', `Something went wrong (HTTP ${response.status})`);
+  }
+
+  const { url, title, markdown, layout } = (await response.json()) as {
+    url: string; title: string; markdown: string; layout: string;
+  };
+  const options = { ...DEFAULT_OPTIONS, layout: isCommentLayout(layout) ? layout : DEFAULT_OPTIONS.layout };
+  return { url, result: { title, markdown, options } };
+}
@@ -0,0 +1,88 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { unzipSync, strFromU8 } from 'fflate';
+import { DEFAULT_OPTIONS, parseThread } from '../../shared/converter';
+import { batchFiles, batchZip, parseBatchUrls, type BatchItem } from '../batch';
+import { BatchQueue } from '../components/BatchQueue';
+import selfPostJson from '../../worker/test/fixtures/self-post.json?raw';
+import selfPostMd from '../../worker/test/fixtures/self-post.md?raw';
+
+const THREAD_URL = 'https://www.reddit.com/r/learnprogramming/comments/1b2c3d/recursion/';
+const OTHER_URL = 'https://www.reddit.com/r/learnprogramming/comments/9z8y7x/other/';
+
+const thread = () => parseThread(JSON.parse(selfPostJson))!;
+
+afterEach(() => vi.unstubAllGlobals());
+
+describe('parseBatchUrls', () => {
+  it('splits on lines and spaces and drops repeats', () => {
+    expect(parseBatchUrls(`${THREAD_URL}\n\n  ${OTHER_URL} ${THREAD_URL}\n`)).toEqual([THREAD_URL, OTHER_URL]);
+  });
+});
+
+describe('batchFiles', () => {
+  it('saves each converted item under its title, with an index of everything', () => {
+    const items: BatchItem[] = [
+      { url: THREAD_URL, status: 'done', result: { thread: thread(), options: DEFAULT_OPTIONS } },
+      { url: OTHER_URL, status: 'failed', error: { code: 'rate_limited', message: 'Slow down' } },
+      { url: `${THREAD_URL}?again`, status: 'done', result: { thread: thread(), options: DEFAULT_OPTIONS } },
+    ];
+    const files = batchFiles(items);
+
+    expect(Object.keys(files)).toEqual([
+      'what-finally-made-recursion-click-for-you.md',
+      'what-finally-made-recursion-click-for-you-2.md',
+      'index.md',
+    ]);
+    expect(files['what-finally-made-recursion-click-for-you.md']).toBe(selfPostMd);
+    expect(files['index.md']).toBe([
+      '# Batch conversion',
+      '',
+      'Converted 2 of 3 URLs.',
+      '',
+      `- [What finally made recursion click for you?](what-finally-made-recursion-click-for-you.md) \u2014 <${THREAD_URL}>`,
+      `- [What finally made recursion click for you?](what-finally-made-recursion-click-for-you-2.md) \u2014 <${THREAD_URL}?again>`,
+      '',
+      '## Not converted',
+      '',
+      `- <${OTHER_URL}> \u2014 \`rate_limited\`: Slow down`,
+      '',
+    ].join('\n'));
+  });
+
+  it('zips the files', () => {
+    const zip = unzipSync(batchZip([
+      { url: THREAD_URL, status: 'done', result: { title: 'Hot in r/rust', markdown: '# Hot\n', options: DEFAULT_OPTIONS } },
+    ]));
+    expect(Object.keys(zip)).toEqual(['hot-in-r-rust.md', 'index.md']);
+    expect(strFromU8(zip['hot-in-r-rust.md'])).toBe('# Hot\n');
+  });
+});
+
+describe('BatchQueue', () => {
+  it('shows the Worker error code for a failed URL and retries it', async () => {
+    let rateLimited = true;
+    const fetchMock = vi.fn(async (input: string) => {
+      // Direct requests to Reddit fail, as they do without CORS
+      if (input.startsWith('https://')) throw new TypeError('Failed to fetch');
+      if (input.includes('9z8y7x') && rateLimited) {
+        return new Response(JSON.stringify({ error: 'rate_limited' }), { status: 429 });
+      }
+      return new Response(selfPostJson, { headers: { 'content-type': 'application/json' } });
+    });
+    vi.stubGlobal('fetch', fetchMock);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const { container } = render(<BatchQueue urls={[THREAD_URL, OTHER_URL]} options={DEFAULT_OPTIONS} extras={{}} />);
+
+    expect(await screen.findByText('rate_limited')).toBeTruthy();
+    expect(screen.getByText('1 of 2 converted, 1 failed')).toBeTruthy();
+    expect(container.querySelector('.batch-item--done')!.textContent).toContain('What finally made recursion click');
+
+    rateLimited = false;
+    fireEvent.click(screen.getByText('Retry'));
+    expect(await screen.findByText('2 of 2 converted')).toBeTruthy();
+    expect(screen.queryByText('rate_limited')).toBeNull();
+  });
+});
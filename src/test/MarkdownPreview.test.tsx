@@ -0,0 +1,154 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { DEFAULT_OPTIONS, parseThread } from '../../shared/converter';
+import { MarkdownPreview } from '../components/MarkdownPreview';
+import { markdownToHtmlDocument } from '../export-html';
+import selfPostJson from '../../worker/test/fixtures/self-post.json?raw';
+import selfPostMd from '../../worker/test/fixtures/self-post.md?raw';
+import selfPostTextMd from '../../worker/test/fixtures/self-post.text.md?raw';
+
+const result = () => ({ thread: parseThread(JSON.parse(selfPostJson))!, options: DEFAULT_OPTIONS });
+
+afterEach(() => vi.restoreAllMocks());
+
+describe('MarkdownPreview', () => {
+  it('shows the rendered markdown first, and the raw markdown on request', () => {
+    const { container } = render(<MarkdownPreview result={result()} sourceUrl="" shareUrl="" />);
+    expect(container.querySelector('.md-rendered h1')).not.toBeNull();
+
+    fireEvent.click(screen.getByText('Raw'));
+    expect(container.querySelector('pre')!.textContent).toBe(selfPostMd);
+  });
+
+  it('shows each export format as text', async () => {
+    const { container } = render(<MarkdownPreview result={result()} sourceUrl="" shareUrl="" />);
+
+    fireEvent.click(screen.getByText('Text'));
+    expect(container.querySelector('pre')!.textContent).toBe(selfPostTextMd);
+
+    fireEvent.click(screen.getByText('JSON'));
+    expect(JSON.parse(container.querySelector('pre')!.textContent!).post.id).toBe('1b2c3d');
+
+    fireEvent.click(screen.getByText('Obsidian'));
+    expect(container.querySelector('pre')!.textContent).toContain('> [!quote]+ [[u/treewalker]]');
+
+    // The HTML export loads on demand
+    fireEvent.click(screen.getByText('HTML'));
+    expect(await screen.findByText(/^<!DOCTYPE html>/)).toBeTruthy();
+  });
+
+  it('downloads the current format under a slug of the title', () => {
+    const createObjectURL = vi.fn(() => 'blob:export');
+    URL.createObjectURL = createObjectURL;
+    URL.revokeObjectURL = vi.fn();
+    const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(function (this: HTMLAnchorElement) {
+      expect(this.download).toBe('what-finally-made-recursion-click-for-you.txt');
+      expect(this.href).toBe('blob:export');
+    });
+
+    render(<MarkdownPreview result={result()} sourceUrl="" shareUrl="" />);
+    fireEvent.click(screen.getByText('Text'));
+    fireEvent.click(screen.getByText('Download'));
+
+    expect(click).toHaveBeenCalledOnce();
+    const blob = (createObjectURL.mock.calls[0] as unknown as [Blob])[0];
+    expect(blob.type).toBe('text/plain;charset=utf-8');
+  });
+});
+
+describe('MarkdownPreview digest', () => {
+  const digest = () => ({ title: 'Top this week in r/rust', markdown: '# Top this week in r/rust\n', options: DEFAULT_OPTIONS });
+
+  it('offers only the markdown-based views', () => {
+    const { container } = render(<MarkdownPreview result={digest()} sourceUrl="" shareUrl="" />);
+    expect([...container.querySelectorAll('.preview-tabs:first-child button')].map(tab => tab.textContent))
+      .toEqual(['Rendered', 'Raw', 'HTML']);
+    expect(container.querySelector('.md-rendered h1')!.textContent).toBe('Top this week in r/rust');
+
+    fireEvent.click(screen.getByText('Raw'));
+    expect(container.querySelector('pre')!.textContent).toBe('# Top this week in r/rust\n');
+  });
+});
+
+describe('MarkdownPreview tree', () => {
+  it('collapses a branch to its author line', () => {
+    const { container } = render(<MarkdownPreview result={result()} sourceUrl="" shareUrl="" />);
+    fireEvent.click(screen.getByText('Tree'));
+    expect(container.querySelectorAll('.tree-node')).toHaveLength(6);
+
+    fireEvent.click(screen.getAllByLabelText('Collapse u/treewalker')[0]);
+    expect(container.querySelectorAll('.tree-node')).toHaveLength(3);
+    expect(screen.getByText('3 hidden')).toBeTruthy();
+
+    fireEvent.click(screen.getByLabelText('Expand u/treewalker'));
+    expect(container.querySelectorAll('.tree-node')).toHaveLength(6);
+  });
+
+  it('copies the picked comments with the parents they reply to', async () => {
+    const writeText = vi.fn(() => Promise.resolve());
+    Object.assign(navigator, { clipboard: { writeText } });
+    const { container } = render(<MarkdownPreview result={result()} sourceUrl="" shareUrl="" />);
+    fireEvent.click(screen.getByText('Tree'));
+
+    const copy = screen.getByText('Copy selected') as HTMLButtonElement;
+    expect(copy.disabled).toBe(true);
+    const boxes = container.querySelectorAll<HTMLInputElement>('.tree-row input[type=checkbox]');
+    fireEvent.click(boxes[2]);
+    expect(screen.getByText('1 selected')).toBeTruthy();
+
+    fireEvent.click(copy);
+    await screen.findByText('Copied');
+    const md = (writeText.mock.calls[0] as unknown as [string])[0];
+    expect(md).toContain('*1 selected comment, with 2 parent comments for context.');
+    expect(md).toContain('**u/quietcompiler**');
+    expect(md).not.toContain('lambda_lena');
+  });
+});
+
+describe('MarkdownPreview share', () => {
+  const THREAD_URL = 'https://www.reddit.com/r/programming/comments/1b2c3d/recursion/';
+  const SHARE_URL = 'http://localhost:3000/?url=x';
+
+  const shareWith = async (fetchMock: () => Promise<Response>) => {
+    vi.stubGlobal('fetch', vi.fn(fetchMock));
+    const writeText = vi.fn(() => Promise.resolve());
+    Object.assign(navigator, { clipboard: { writeText }, share: undefined });
+    render(<MarkdownPreview result={result()} sourceUrl={THREAD_URL} shareUrl={SHARE_URL} />);
+    fireEvent.click(screen.getByText('Share'));
+    await screen.findByText('Copied');
+    return { fetch: vi.mocked(fetch), writeText };
+  };
+
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('shares a short link to a stored snapshot of the markdown', async () => {
+    const { fetch, writeText } = await shareWith(async () => Response.json({ id: 'AbCdEfGh12' }, { status: 201 }));
+
+    expect(writeText).toHaveBeenCalledWith(`${window.location.origin}/s/AbCdEfGh12`);
+    const [path, init] = fetch.mock.calls[0] as unknown as [string, RequestInit];
+    expect(path).toBe('/api/snapshot');
+    expect(JSON.parse(init.body as string)).toEqual({
+      url: THREAD_URL,
+      title: 'What finally made recursion click for you?',
+      markdown: selfPostMd,
+      layout: 'quote',
+    });
+  });
+
+  it('falls back to the live link when storing the snapshot fails', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { writeText } = await shareWith(async () => Response.json({ error: 'snapshot_too_large' }, { status: 413 }));
+    expect(writeText).toHaveBeenCalledWith(SHARE_URL);
+  });
+});
+
+describe('markdownToHtmlDocument', () => {
+  it('wraps the sanitised rendering in a standalone page', () => {
+    const html = markdownToHtmlDocument('# A <b> & "c"\n\n[x](javascript:alert(1)) <script>bad()</script>', 'A <b> & "c"', 'quote');
+    expect(html).toMatch(/^<!DOCTYPE html>\n<html lang="en">/);
+    expect(html).toContain('<title>A &lt;b&gt; &amp; &quot;c&quot;</title>');
+    expect(html).toContain('<style>');
+    expect(html).toContain('<main><div class="md-rendered md-layout-quote"><h1>');
+    expect(html).not.toMatch(/javascript:|<script/);
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { DEFAULT_OPTIONS } from '../../shared/converter';
+import { RedditForm } from '../components/RedditForm';
+
+const THREAD_URL = 'https://www.reddit.com/r/learnprogramming/comments/1b2c3d/recursion/';
+
+afterEach(() => vi.unstubAllGlobals());
+
+describe('RedditForm', () => {
+  it('shows the request ID of a failed Worker request', async () => {
+    vi.stubGlobal('fetch', vi.fn(async (input: string) => {
+      // Direct requests to Reddit fail, as they do without CORS
+      if (input.startsWith('https://')) throw new TypeError('Failed to fetch');
+      return new Response(
+        JSON.stringify({ error: 'upstream_forbidden', message: 'Reddit blocked this request', requestId: '8a1b2c3d-SJC' }),
+        { status: 502, headers: { 'Content-Type': 'application/json', 'X-Request-Id': '8a1b2c3d-SJC' } },
+      );
+    }));
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    render(
+      <RedditForm
+        url={THREAD_URL}
+        onUrlChange={() => {}}
+        options={DEFAULT_OPTIONS}
+        onOptionsChange={() => {}}
+        onSubmit={() => {}}
+        autoConvert
+      />,
+    );
+
+    expect(await screen.findByText('Reddit blocked this request \u2014 try again later')).toBeTruthy();
+    expect(screen.getByText('Request ID: 8a1b2c3d-SJC')).toBeTruthy();
+  });
+});
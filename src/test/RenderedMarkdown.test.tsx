@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import { render } from '@testing-library/react';
+import { RenderedMarkdown } from '../components/RenderedMarkdown';
+import selfPostMd from '../../worker/test/fixtures/self-post.md?raw';
+import selfPostDetailsMd from '../../worker/test/fixtures/self-post.details.md?raw';
+import selfPostBulletsMd from '../../worker/test/fixtures/self-post.bullets.md?raw';
+
+function renderMd(markdown: string, layout: Parameters<typeof RenderedMarkdown>[0]['layout'] = 'quote') {
+  return render(<RenderedMarkdown markdown={markdown} layout={layout} />).container;
+}
+
+// -- CommonMark and GFM ------------------------------------------------
+
+describe('RenderedMarkdown', () => {
+  it('renders inline emphasis, code and links inside paragraphs', () => {
+    const root = renderMd('Some *soft* and **strong** text with `code` and [a link](https://example.com/).');
+    const p = root.querySelector('p')!;
+    expect(p.querySelector('em')!.textContent).toBe('soft');
+    expect(p.querySelector('strong')!.textContent).toBe('strong');
+    expect(p.querySelector('code')!.textContent).toBe('code');
+    const link = p.querySelector('a')!;
+    expect(link.getAttribute('href')).toBe('https://example.com/');
+    expect(link.getAttribute('target')).toBe('_blank');
+    expect(link.getAttribute('rel')).toBe('noopener noreferrer');
+  });
+
+  it('joins the lines of a paragraph', () => {
+    const root = renderMd('First line\nsecond line\n\nNext paragraph');
+    const paragraphs = root.querySelectorAll('p');
+    expect(paragraphs).toHaveLength(2);
+    expect(paragraphs[0].textContent).toBe('First line\nsecond line');
+  });
+
+  it('renders lists, code blocks and tables', () => {
+    const root = renderMd([
+      '- one',
+      '  - nested',
+      '',
+      '1. first',
+      '',
+      '```js',
+      'let a = 1 < 2;',
+      '```',
+      '',
+      '| a | b |',
+      '|---|---|',
+      '| 1 | 2 |',
+    ].join('\n'));
+    expect(root.querySelector('ul li ul li')!.textContent).toBe('nested');
+    expect(root.querySelector('ol li')!.textContent).toBe('first');
+    expect(root.querySelector('pre code')!.textContent).toBe('let a = 1 < 2;\n');
+    expect([...root.querySelectorAll('td')].map(td => td.textContent)).toEqual(['1', '2']);
+  });
+
+  it('nests blockquotes by depth', () => {
+    const root = renderMd('> **u/a**\n> top\n> \n> > **u/b**\n> > reply');
+    const outer = root.querySelector('.md-rendered > blockquote')!;
+    const inner = outer.querySelector(':scope > blockquote')!;
+    expect(outer.querySelector('strong')!.textContent).toBe('u/a');
+    expect(inner.querySelector('strong')!.textContent).toBe('u/b');
+  });
+
+  it('hides YAML front matter', () => {
+    const root = renderMd('---\ntitle: Hello\ntags: [a]\n---\n\n# Hello');
+    expect(root.querySelector('hr')).toBeNull();
+    expect(root.textContent).toBe('Hello');
+  });
+
+  it('renders superscripts and escaped HTML from converted comments', () => {
+    const root = renderMd('E = mc<sup>2</sup>, written as \\<sup>');
+    const p = root.querySelector('p')!;
+    expect(p.querySelector('sup')!.textContent).toBe('2');
+    expect(p.textContent).toBe('E = mc2, written as <sup>');
+  });
+});
+
+// -- Sanitising --------------------------------------------------------
+
+describe('RenderedMarkdown sanitising', () => {
+  it('drops javascript: URLs from links and images', () => {
+    const root = renderMd('[click](javascript:alert(1)) ![pic](javascript:alert(2)) <a href="javascript:alert(3)">raw</a>');
+    for (const el of root.querySelectorAll('a, img')) {
+      expect(el.getAttribute('href') ?? '').not.toMatch(/javascript/i);
+      expect(el.getAttribute('src') ?? '').not.toMatch(/javascript/i);
+    }
+  });
+
+  it('removes scripts, styles and event handlers from raw HTML', () => {
+    const root = renderMd('<script>alert(1)</script>\n\n<img src="https://i.redd.it/x.png" onerror="alert(2)">\n\n<p style="color: red" onclick="alert(3)">hi</p>');
+    expect(root.querySelector('script')).toBeNull();
+    expect(root.innerHTML).not.toMatch(/onerror|onclick|style=/);
+    expect(root.querySelector('img')!.getAttribute('src')).toBe('https://i.redd.it/x.png');
+  });
+});
+
+// -- Comment layouts ---------------------------------------------------
+
+describe('RenderedMarkdown layouts', () => {
+  it('renders a converted thread with its title, author lines and quotes', () => {
+    const root = renderMd(selfPostMd);
+    expect(root.querySelector('h1')!.textContent).toBe('What finally made recursion click for you?');
+    expect(root.querySelector('blockquote strong')!.textContent).toMatch(/^u\//);
+    expect(root.textContent).not.toContain('> ');
+  });
+
+  it('renders the details layout as nested collapsible blocks', () => {
+    const root = renderMd(selfPostDetailsMd, 'details');
+    const outer = root.querySelector('.md-rendered > details')!;
+    expect(outer.hasAttribute('open')).toBe(true);
+    expect(outer.querySelector(':scope > summary')!.textContent).toBe('u/treewalker');
+    expect(outer.querySelector(':scope > details > summary')!.textContent).toBe('u/quietcompiler');
+    expect(root.textContent).not.toContain('<details');
+  });
+
+  it('renders the bullets layout as nested lists', () => {
+    const root = renderMd(selfPostBulletsMd, 'bullets');
+    const item = root.querySelector('.md-rendered > ul > li')!;
+    expect(item.querySelector('strong')!.textContent).toBe('u/treewalker');
+    expect(item.querySelector(':scope ul > li strong')!.textContent).toBe('u/quietcompiler');
+  });
+
+  it('marks the layout for layout-specific styles', () => {
+    expect(renderMd('x', 'headings').querySelector('.md-layout-headings')).not.toBeNull();
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { IDBFactory } from 'fake-indexeddb';
+import { DEFAULT_OPTIONS, parseThread } from '../../shared/converter';
+import { SavedList } from '../components/SavedList';
+import {
+  deleteSaved,
+  loadSaved,
+  MAX_SAVED_CONVERSIONS,
+  savedResult,
+  saveConversion,
+  searchSaved,
+} from '../saved';
+import selfPostJson from '../../worker/test/fixtures/self-post.json?raw';
+import selfPostMd from '../../worker/test/fixtures/self-post.md?raw';
+
+const THREAD_URL = 'https://www.reddit.com/r/learnprogramming/comments/1b2c3d/recursion/';
+const DIGEST_URL = 'https://www.reddit.com/r/rust/top/?t=week';
+
+const threadResult = () => ({ thread: parseThread(JSON.parse(selfPostJson))!, options: DEFAULT_OPTIONS });
+const digestResult = () => ({ title: 'Top this week in r/rust', markdown: '# Top this week in r/rust\n', options: DEFAULT_OPTIONS });
+
+beforeEach(() => {
+  vi.stubGlobal('indexedDB', new IDBFactory());
+  return () => vi.unstubAllGlobals();
+});
+
+describe('saved conversions', () => {
+  it('reopens a thread with its markdown, newest first', async () => {
+    await saveConversion(THREAD_URL, threadResult(), 1000);
+    await saveConversion(DIGEST_URL, digestResult(), 2000);
+
+    const saved = await loadSaved();
+    expect(saved.map(conversion => conversion.title)).toEqual([
+      'Top this week in r/rust',
+      'What finally made recursion click for you?',
+    ]);
+    expect(saved[1].markdown).toBe(selfPostMd);
+    expect(savedResult(saved[1])).toEqual(threadResult());
+    expect(savedResult(saved[0])).toEqual(digestResult());
+  });
+
+  it('replaces an earlier conversion of the same URL, and deletes', async () => {
+    await saveConversion(THREAD_URL, threadResult(), 1000);
+    await saveConversion(THREAD_URL, threadResult(), 2000);
+    expect((await loadSaved()).map(conversion => conversion.savedAt)).toEqual([2000]);
+
+    await deleteSaved(THREAD_URL);
+    expect(await loadSaved()).toEqual([]);
+  });
+
+  it('drops the oldest conversions past the cap', async () => {
+    for (let i = 0; i <= MAX_SAVED_CONVERSIONS; i++) {
+      await saveConversion(`${DIGEST_URL}&n=${i}`, digestResult(), i);
+    }
+    const saved = await loadSaved();
+    expect(saved).toHaveLength(MAX_SAVED_CONVERSIONS);
+    expect(saved[saved.length - 1].savedAt).toBe(1);
+  });
+
+  it('treats missing storage as empty', async () => {
+    vi.stubGlobal('indexedDB', undefined);
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    await saveConversion(THREAD_URL, threadResult());
+    expect(await loadSaved()).toEqual([]);
+    expect(warn).toHaveBeenCalledTimes(2);
+  });
+
+  it('searches titles, URLs and text for every word', async () => {
+    await saveConversion(THREAD_URL, threadResult(), 1000);
+    await saveConversion(DIGEST_URL, digestResult(), 2000);
+    const saved = await loadSaved();
+
+    expect(searchSaved(saved, '')).toHaveLength(2);
+    expect(searchSaved(saved, 'RUST').map(conversion => conversion.url)).toEqual([DIGEST_URL]);
+    expect(searchSaved(saved, 'learnprogramming recursion')).toHaveLength(1);
+    expect(searchSaved(saved, 'rust recursion')).toEqual([]);
+  });
+});
+
+describe('SavedList', () => {
+  it('lists, filters, reopens and deletes saved conversions', async () => {
+    await saveConversion(THREAD_URL, threadResult(), 1000);
+    await saveConversion(DIGEST_URL, digestResult(), 2000);
+    const onOpen = vi.fn();
+    render(<SavedList onOpen={onOpen} />);
+
+    fireEvent.click(await screen.findByText('What finally made recursion click for you?'));
+    expect(onOpen.mock.calls[0][0].url).toBe(THREAD_URL);
+
+    fireEvent.change(screen.getByLabelText('Search history'), { target: { value: 'rust' } });
+    expect(screen.queryByText('What finally made recursion click for you?')).toBeNull();
+
+    fireEvent.click(screen.getByLabelText('Delete Top this week in r/rust'));
+    expect(await screen.findByText(/Nothing matches/)).toBeTruthy();
+    expect(await loadSaved()).toHaveLength(1);
+  });
+});
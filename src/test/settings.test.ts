@@ -0,0 +1,27 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { loadFrontMatterSettings, saveFrontMatterSettings } from '../settings';
+
+beforeEach(() => localStorage.clear());
+
+describe('front matter settings', () => {
+  it('round-trips through localStorage', () => {
+    saveFrontMatterSettings({ frontMatter: true, frontMatterFields: [{ key: 'tags', value: '[reddit]' }] });
+    expect(loadFrontMatterSettings()).toEqual({
+      frontMatter: true,
+      frontMatterFields: [{ key: 'tags', value: '[reddit]' }],
+    });
+  });
+
+  it('returns nothing when nothing was saved', () => {
+    expect(loadFrontMatterSettings()).toEqual({});
+  });
+
+  it('ignores corrupt and invalid saved values', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    localStorage.setItem('r2md:front-matter', '{not json');
+    expect(loadFrontMatterSettings()).toEqual({});
+
+    localStorage.setItem('r2md:front-matter', JSON.stringify({ frontMatter: 'yes', fields: ['ok: 1', 7, 'bad key: 2'] }));
+    expect(loadFrontMatterSettings()).toEqual({ frontMatter: false, frontMatterFields: [{ key: 'ok', value: '1' }] });
+  });
+});
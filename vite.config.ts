@@ -1,11 +1,54 @@
-import { defineConfig } from 'vite';
+import { defineConfig, type Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+const SERVICE_WORKER_FILE = 'sw.js';
+
+/** Fill the service worker's precache list in with the files this build wrote */
+function precacheServiceWorker(): Plugin {
+  return {
+    name: 'r2md-precache-service-worker',
+    apply: 'build',
+    enforce: 'post',
+    generateBundle(_, bundle) {
+      const worker = bundle[SERVICE_WORKER_FILE];
+      if (worker?.type !== 'chunk') return;
+      const urls = Object.keys(bundle)
+        .filter(file => file !== SERVICE_WORKER_FILE)
+        // Pages answers /index.html with a redirect, so cache the directory URL
+        .map(file => (file === 'index.html' ? './' : file))
+        .sort();
+      // Any change to the files makes a new cache; the old one is dropped on activation
+      const version = [...urls.join('\n')]
+        .reduce((hash, char) => (hash * 33 + char.charCodeAt(0)) >>> 0, 5381)
+        .toString(36);
+      worker.code = worker.code
+        .replace(/__PRECACHE_URLS__/g, JSON.stringify(urls))
+        .replace(/__PRECACHE_VERSION__/g, JSON.stringify(version));
+    },
+  };
+}
+
 // https://vitejs.dev/config/
 export default defineConfig({
   base: process.env.VITE_BASE_PATH || '/',
-  plugins: [react()],
+  plugins: [react(), precacheServiceWorker()],
   optimizeDeps: {
     exclude: ['lucide-react'],
   },
+  build: {
+    rollupOptions: {
+      input: {
+        index: 'index.html',
+        sw: 'src/service-worker.ts',
+      },
+      output: {
+        // The service worker keeps a fixed name, so browsers can check it for updates
+        entryFileNames: chunk => (chunk.name === 'sw' ? SERVICE_WORKER_FILE : 'assets/[name]-[hash].js'),
+        // The markdown renderer is most of the bundle; keep it cacheable on its own
+        manualChunks: {
+          markdown: ['react-markdown', 'remark-gfm', 'remark-frontmatter', 'rehype-raw', 'rehype-sanitize'],
+        },
+      },
+    },
+  },
 });
@@ -0,0 +1,15 @@
+// Run by `npm run deploy`: wrangler.toml ships a placeholder KV namespace id
+// so tests and `wrangler dev` work, and deploying with it would fail partway.
+import { readFileSync } from 'node:fs';
+
+const config = readFileSync(new URL('../wrangler.toml', import.meta.url), 'utf8');
+const snapshots = /binding\s*=\s*"SNAPSHOTS"\s*\n\s*id\s*=\s*"([^"]*)"/.exec(config);
+
+// Real namespace ids are 32 hex digits
+if (!snapshots || !/^[0-9a-f]{32}$/.test(snapshots[1])) {
+  console.error(
+    'wrangler.toml has no SNAPSHOTS KV namespace id yet.\n' +
+    'Run `npx wrangler kv namespace create SNAPSHOTS` and put the id it prints in [[kv_namespaces]].',
+  );
+  process.exit(1);
+}
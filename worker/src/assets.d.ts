@@ -0,0 +1,12 @@
+// Binary files bundled with the Worker: wrangler compiles .wasm into a
+// WebAssembly.Module, and the Data rule in wrangler.toml loads fonts as bytes
+
+declare module '*.wasm' {
+  const module: WebAssembly.Module;
+  export default module;
+}
+
+declare module '*.ttf' {
+  const data: ArrayBuffer;
+  export default data;
+}
@@ -0,0 +1,170 @@
+import { Resvg, initWasm } from '@resvg/resvg-wasm';
+import resvgWasm from '@resvg/resvg-wasm/index_bg.wasm';
+import bebasNeue from '@expo-google-fonts/bebas-neue/400Regular/BebasNeue_400Regular.ttf';
+import jetBrainsMono from '@expo-google-fonts/jetbrains-mono/400Regular/JetBrainsMono_400Regular.ttf';
+import type { Post } from '../../shared/converter';
+
+// A 1200×630 card for og:image, in the site's paper, ink and red. It's drawn
+// as SVG and rasterised to PNG with resvg, since most unfurlers won't show an
+// SVG. The fonts are bundled, so text isn't measured: titles wrap at a
+// character count that fits Bebas Neue at TITLE_FONT_SIZE. Neither font has
+// emoji or CJK, and resvg draws a box for a character no font has, so
+// titles are cut down to the characters the fonts can draw.
+
+export const CARD_WIDTH = 1200;
+export const CARD_HEIGHT = 630;
+const CARD_MARGIN = 80;
+const TITLE_FONT_SIZE = 84;
+const TITLE_LINE_HEIGHT = 88;
+const TITLE_LINE_CHARS = 30;
+const TITLE_MAX_LINES = 4;
+
+const CARD_COLORS = { paper: '#F2EDE8', ink: '#111', red: '#E63312', stone: '#888' };
+const CARD_FONTS = { display: 'Bebas Neue', mono: 'JetBrains Mono' };
+
+// initWasm can only run once per isolate, so every card waits on the same call
+let resvgReady: Promise<void> | null = null;
+
+/** The card as a PNG, drawn with the bundled fonts */
+export async function renderCardPng(svg: string): Promise<Uint8Array> {
+  resvgReady ??= initWasm(resvgWasm);
+  await resvgReady;
+
+  const resvg = new Resvg(svg, {
+    font: {
+      fontBuffers: [new Uint8Array(bebasNeue), new Uint8Array(jetBrainsMono)],
+      defaultFontFamily: CARD_FONTS.mono,
+    },
+  });
+  const rendered = resvg.render();
+  const png = rendered.asPng();
+  // Memory on the wasm side isn't garbage collected
+  rendered.free();
+  resvg.free();
+  return png;
+}
+
+/** The characters a TrueType font has glyphs for, from its format 4 cmap subtable */
+function fontCharacters(font: ArrayBuffer): Set<number> {
+  const view = new DataView(font);
+  const chars = new Set<number>();
+
+  let cmap = -1;
+  for (let i = 0; i < view.getUint16(4); i++) {
+    const record = 12 + i * 16;
+    if (view.getUint32(record) === 0x636d6170 /* 'cmap' */) cmap = view.getUint32(record + 8);
+  }
+  if (cmap < 0) return chars;
+
+  for (let i = 0; i < view.getUint16(cmap + 2); i++) {
+    const table = cmap + view.getUint32(cmap + 8 + i * 8);
+    if (view.getUint16(table) !== 4) continue;
+
+    const segments = view.getUint16(table + 6) / 2;
+    const ends = table + 14;
+    const starts = ends + segments * 2 + 2;
+    const deltas = starts + segments * 2;
+    const rangeOffsets = deltas + segments * 2;
+    for (let seg = 0; seg < segments; seg++) {
+      const start = view.getUint16(starts + seg * 2);
+      const end = view.getUint16(ends + seg * 2);
+      const delta = view.getUint16(deltas + seg * 2);
+      const rangeOffset = view.getUint16(rangeOffsets + seg * 2);
+      for (let c = start; c <= end && c !== 0xffff; c++) {
+        const glyph = rangeOffset ? view.getUint16(rangeOffsets + seg * 2 + rangeOffset + (c - start) * 2) : c;
+        // Glyph 0 is the missing-glyph box
+        if (glyph && (glyph + delta) & 0xffff) chars.add(c);
+      }
+    }
+    // Every Unicode subtable in a font maps the same characters
+    break;
+  }
+  return chars;
+}
+
+// Characters either font has; resvg falls back from one to the other
+let drawable: Set<number> | null = null;
+
+/**
+ * Text with the characters neither font has taken out, so they don't draw as
+ * missing-glyph boxes. Letters the fonts lack in one form are drawn in another
+ * where they can be (accents dropped, full-width letters narrowed); emoji,
+ * CJK and the like are left out.
+ */
+function drawableText(text: string): string {
+  drawable ??= new Set([...fontCharacters(bebasNeue), ...fontCharacters(jetBrainsMono)]);
+  const chars = drawable;
+  const canDraw = (s: string) => [...s].every(ch => chars.has(ch.codePointAt(0)!));
+
+  let out = '';
+  for (const ch of text) {
+    const plain = ch.normalize('NFKD').replace(/\p{M}/gu, '');
+    if (canDraw(ch)) out += ch;
+    else if (plain && canDraw(plain)) out += plain;
+    else if (/\s/.test(ch)) out += ' ';
+  }
+  return out.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Split a title into at most `maxLines` lines of at most `lineChars`
+ * characters, breaking between words where it can. A title that doesn't fit
+ * ends in an ellipsis.
+ */
+function wrapTitle(title: string, lineChars: number, maxLines: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of title.trim().split(/\s+/)) {
+    // Hard-break words too long for a line of their own
+    for (let rest = word; rest; rest = rest.slice(lineChars)) {
+      const piece = rest.slice(0, lineChars);
+      if (!line) {
+        line = piece;
+      } else if (line.length + 1 + piece.length <= lineChars) {
+        line += ` ${piece}`;
+      } else {
+        lines.push(line);
+        line = piece;
+      }
+    }
+  }
+  if (line) lines.push(line);
+
+  if (lines.length <= maxLines) return lines;
+  const kept = lines.slice(0, maxLines);
+  kept[maxLines - 1] = `${kept[maxLines - 1].slice(0, lineChars - 1).trimEnd()}\u2026`;
+  return kept;
+}
+
+function escapeXml(s: string): string {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function compactCount(n: number): string {
+  return new Intl.NumberFormat('en-US', { notation: 'compact', maximumFractionDigits: 1 }).format(n);
+}
+
+/** The card for a thread's post, as SVG */
+export function buildCardSvg(post: Post): string {
+  // Subreddit and user names are ASCII, but a title can be in any script
+  const lines = wrapTitle(drawableText(post.title) || 'Reddit Thread', TITLE_LINE_CHARS, TITLE_MAX_LINES);
+  const titleTop = 200;
+  const tspans = lines
+    .map((line, i) => `<tspan x="${CARD_MARGIN}" y="${titleTop + i * TITLE_LINE_HEIGHT}">${escapeXml(line)}</tspan>`)
+    .join('');
+  const footerY = CARD_HEIGHT - CARD_MARGIN;
+  const right = CARD_WIDTH - CARD_MARGIN;
+  const stats = `\u25B2 ${compactCount(post.score)} points \u00b7 ${compactCount(post.numComments)} comments`;
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${CARD_WIDTH}" height="${CARD_HEIGHT}" viewBox="0 0 ${CARD_WIDTH} ${CARD_HEIGHT}">
+  <rect width="${CARD_WIDTH}" height="${CARD_HEIGHT}" fill="${CARD_COLORS.paper}"/>
+  <rect width="${CARD_WIDTH}" height="12" fill="${CARD_COLORS.red}"/>
+  <text x="${CARD_MARGIN}" y="104" font-family="${CARD_FONTS.mono}" font-size="26" letter-spacing="3" fill="${CARD_COLORS.stone}">${escapeXml(`R/${post.subreddit}`.toUpperCase())}</text>
+  <text x="${right}" y="110" text-anchor="end" font-family="${CARD_FONTS.display}" font-size="48" fill="${CARD_COLORS.red}">R\u2192MD</text>
+  <text font-family="${CARD_FONTS.display}" font-size="${TITLE_FONT_SIZE}" fill="${CARD_COLORS.ink}">${tspans}</text>
+  <rect x="${CARD_MARGIN}" y="${footerY - 56}" width="${right - CARD_MARGIN}" height="2" fill="${CARD_COLORS.ink}"/>
+  <text x="${CARD_MARGIN}" y="${footerY}" font-family="${CARD_FONTS.mono}" font-size="26" fill="${CARD_COLORS.ink}">${escapeXml(`u/${post.author}`)}</text>
+  <text x="${right}" y="${footerY}" text-anchor="end" font-family="${CARD_FONTS.mono}" font-size="26" fill="${CARD_COLORS.stone}">${escapeXml(stats.toUpperCase())}</text>
+</svg>
+`;
+}
@@ -1,10 +1,89 @@
+import {
+  DEFAULT_OPTIONS,
+  digestSizeFromParams,
+  digestToMarkdown,
+  findComment,
+  focusThread,
+  historyPagesFromParams,
+  historyToMarkdown,
+  isCommentLayout,
+  optionsFromParams,
+  parseHistoryPage,
+  parseThread,
+  threadToMarkdown,
+  type CommentLayout,
+  type HistoryItem,
+  type Thread,
+  type UserHistory,
+} from '../../shared/converter';
+import {
+  DEFAULT_RATE_LIMIT_BURST,
+  expandThread,
+  MORE_BATCH_SIZE,
+  type ExpandSource,
+} from '../../shared/expand';
+import {
+  canonicalHost,
+  describeListing,
+  focusFromUrl,
+  historyQuery,
+  isRedditHost,
+  isShareLink,
+  listingJsonUrl,
+  listingPageUrl,
+  parseHistoryUrl,
+  parseListingUrl,
+  threadQuery,
+  withThreadQuery,
+  type Listing,
+} from '../../shared/thread-url';
+import { CARD_HEIGHT, CARD_WIDTH, buildCardSvg, renderCardPng } from './card';
+
+export interface Env {
+  // Stored snapshots of converted markdown, behind short share links
+  SNAPSHOTS: KVNamespace;
+  // Days a snapshot is kept before KV expires it
+  SNAPSHOT_TTL_DAYS?: string;
+  // A token bucket per client IP for requests that reach Reddit
+  RATE_LIMITER: DurableObjectNamespace;
+  // Requests a client can make at once, and tokens it gets back per minute
+  RATE_LIMIT_BURST?: string;
+  RATE_LIMIT_PER_MINUTE?: string;
+  // The same for crawler previews, which are charged to a bucket of their own
+  CRAWLER_RATE_LIMIT_BURST?: string;
+  CRAWLER_RATE_LIMIT_PER_MINUTE?: string;
+  // The same for snapshot writes, which never reach Reddit but fill up KV
+  SNAPSHOT_RATE_LIMIT_BURST?: string;
+  SNAPSHOT_RATE_LIMIT_PER_MINUTE?: string;
+  // Seconds a cached thread can stand in for Reddit when it's rate-limiting or down
+  STALE_IF_ERROR_SECONDS?: string;
+}
+
 // --- Reddit fetch proxy ---
 
 const ALLOWED_HOSTS = new Set(['www.reddit.com', 'old.reddit.com']);
-const THREAD_PATH_RE = /^\/r\/[A-Za-z0-9_]+\/comments\/[a-z0-9]+(\/[^?#]*)?$/;
+// The subreddit is optional: /comments/<id> is where redd.it shortlinks land
+const THREAD_PATH_RE = /^(\/r\/[A-Za-z0-9_]+)?\/comments\/[a-z0-9]+(\/[^?#]*)?$/;
 const MAX_RESPONSE_BYTES = 5 * 1024 * 1024; // 5 MB
 const FETCH_TIMEOUT_MS = 10_000; // 10 s
+const MAX_REDIRECTS = 5;
 const CACHE_TTL_SECONDS = 60;
+// After CACHE_TTL_SECONDS a cached copy is still served while it's refreshed in the background
+const STALE_WHILE_REVALIDATE_SECONDS = 240;
+const DEFAULT_STALE_IF_ERROR_SECONDS = 24 * 60 * 60;
+const MORE_ID_RE = /^[a-z0-9]+$/;
+// Workers allow 50 subrequests per request, and a Reddit request that misses
+// the cache makes two: the RateLimiter call and the fetch itself
+const SUBREQUEST_LIMIT = 50;
+const SUBREQUESTS_PER_REDDIT_REQUEST = 2;
+// What that leaves for "load more" batches after a share link's hops and the thread
+const MAX_EXPAND_REQUESTS = Math.floor(SUBREQUEST_LIMIT / SUBREQUESTS_PER_REDDIT_REQUEST) - MAX_REDIRECTS - 1;
+const DIGEST_CONCURRENCY = 4;
+// Extra top-level comments fetched per digest thread, for stickied and filtered-out ones
+const DIGEST_COMMENT_HEADROOM = 5;
+// Up to two stickied posts top a listing; they're skipped, so fetch enough to replace them
+const MAX_STICKIED_POSTS = 2;
+const OG_EXCERPT_LENGTH = 200;
 const UPSTREAM_UA =
   'Mozilla/5.0 (compatible; r2md/1.0; +https://peirce.net/reddit) AppleWebKit/537.36';
 
@@ -31,19 +110,70 @@ function htmlResponse(html: string, status = 200): Response {
   });
 }
 
+function markdownResponse(markdown: string, extraHeaders: Record<string, string> = {}): Response {
+  return new Response(markdown, {
+    status: 200,
+    headers: {
+      'Content-Type': 'text/markdown; charset=utf-8',
+      'Cache-Control': `public, max-age=${CACHE_TTL_SECONDS}`,
+      ...extraHeaders,
+    },
+  });
+}
+
 function escapeHtml(s: string): string {
   return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
 }
 
+/** Whitespace-collapsed text cut to `length` characters at a word boundary */
+function excerpt(text: string, length: number): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  if (flat.length <= length) return flat;
+  const cut = flat.slice(0, length);
+  const space = cut.lastIndexOf(' ');
+  return `${(space > 0 ? cut.slice(0, space) : cut).trimEnd()}\u2026`;
+}
+
 function isCrawler(ua: string): boolean {
   const lower = ua.toLowerCase();
   return BOT_UA_PATTERNS.some(p => lower.includes(p.toLowerCase()));
 }
 
+/**
+ * A body as text, counting bytes as they arrive rather than buffering it all
+ * first. Null once it's over `maxBytes`, by Content-Length or by what has been
+ * read; the stream is cancelled then, which aborts an upstream fetch.
+ */
+async function readCappedText(message: Request | Response, maxBytes: number): Promise<string | null> {
+  const declared = parseInt(message.headers.get('content-length') || '', 10);
+  if (declared > maxBytes) {
+    await message.body?.cancel();
+    return null;
+  }
+  if (!message.body) return '';
+
+  const reader = message.body.getReader();
+  const decoder = new TextDecoder();
+  let bytes = 0;
+  let text = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    bytes += value.byteLength;
+    if (bytes > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    // A multibyte character can straddle two chunks; `stream` holds its start back
+    text += decoder.decode(value, { stream: true });
+  }
+  return text + decoder.decode();
+}
+
 // --- Shared URL validation & fetch ---
 
 type ValidateResult =
-  | { ok: true; jsonUrl: string; hostname: string; cleanPath: string }
+  | { ok: true; kind: 'thread' | 'user'; jsonUrl: string; canonicalUrl: string; hostname: string; cleanPath: string }
   | { ok: false; response: Response };
 
 function validateRedditUrl(targetParam: string | null): ValidateResult {
@@ -64,50 +194,125 @@ function validateRedditUrl(targetParam: string | null): ValidateResult {
     return { ok: false, response: jsonResponse({ error: 'https_required', message: 'Only HTTPS URLs are allowed' }, 400) };
   }
 
-  if (!ALLOWED_HOSTS.has(target.hostname)) {
+  // m., new., np. and bare reddit.com serve the same paths as www
+  const hostname = canonicalHost(target.hostname);
+  if (!ALLOWED_HOSTS.has(hostname)) {
     return { ok: false, response: jsonResponse({ error: 'host_not_allowed', message: 'Only Reddit URLs are allowed' }, 400) };
   }
 
-  const cleanPath = target.pathname.replace(/\/+$/, '');
-  if (!THREAD_PATH_RE.test(cleanPath)) {
+  const path = target.pathname.replace(/\/+$/, '');
+  const user = parseHistoryUrl(`https://${hostname}${path}`);
+  if (!user && !THREAD_PATH_RE.test(path)) {
     return { ok: false, response: jsonResponse(
-      { error: 'invalid_path', message: 'URL must be a Reddit thread (/r/…/comments/…)' }, 400,
+      { error: 'invalid_path', message: 'URL must be a Reddit thread (/r/…/comments/…) or user history (/user/…/comments)' }, 400,
     )};
   }
+  const cleanPath = user ? `/user/${user.username}/${user.kind}` : path;
+
+  // Only allow-listed parameters reach Reddit; they're part of the cache key
+  const query = (user ? historyQuery : threadQuery)(target.searchParams).toString();
 
   return {
     ok: true,
-    jsonUrl: `https://${target.hostname}${cleanPath}.json`,
-    hostname: target.hostname,
+    kind: user ? 'user' : 'thread',
+    jsonUrl: `https://${hostname}${cleanPath}.json${query ? `?${query}` : ''}`,
+    canonicalUrl: `https://${hostname}${cleanPath}/${query ? `?${query}` : ''}`,
+    hostname,
     cleanPath,
   };
 }
 
-type FetchResult =
-  | { ok: true; body: string; data: unknown }
+type ValidateListingResult =
+  | { ok: true; listing: Listing }
   | { ok: false; response: Response };
 
-async function fetchRedditJson(jsonUrl: string): Promise<FetchResult> {
-  // Check cache
-  const cache = caches.default;
-  const cacheKey = new Request(jsonUrl);
-  const cached = await cache.match(cacheKey);
-  if (cached) {
-    const body = await cached.text();
-    return { ok: true, body, data: JSON.parse(body) };
+function validateListingUrl(targetParam: string | null): ValidateListingResult {
+  if (!targetParam) {
+    return { ok: false, response: jsonResponse(
+      { error: 'missing_url', message: 'Provide a subreddit URL as ?url=…' }, 400,
+    )};
   }
 
-  // Fetch from Reddit with timeout
+  let target: URL;
+  try {
+    target = new URL(targetParam);
+  } catch {
+    return { ok: false, response: jsonResponse({ error: 'invalid_url', message: 'Not a valid URL' }, 400) };
+  }
+
+  if (target.protocol !== 'https:') {
+    return { ok: false, response: jsonResponse({ error: 'https_required', message: 'Only HTTPS URLs are allowed' }, 400) };
+  }
+
+  if (!ALLOWED_HOSTS.has(canonicalHost(target.hostname))) {
+    return { ok: false, response: jsonResponse({ error: 'host_not_allowed', message: 'Only Reddit URLs are allowed' }, 400) };
+  }
+
+  // The path and period are read the same way the app reads them
+  const listing = parseListingUrl(target.toString());
+  if (!listing) {
+    return { ok: false, response: jsonResponse(
+      { error: 'invalid_path', message: 'URL must be a subreddit listing (/r/… or /r/…/top)' }, 400,
+    )};
+  }
+  return { ok: true, listing };
+}
+
+type ValidateMoreResult =
+  | { ok: true; jsonUrl: string }
+  | { ok: false; response: Response };
+
+function validateMoreRequest(params: URLSearchParams): ValidateMoreResult {
+  const link = (params.get('link') || '').replace(/^t3_/, '');
+  const ids = (params.get('children') || '').split(',').filter(Boolean);
+
+  if (!link || ids.length === 0) {
+    return { ok: false, response: jsonResponse(
+      { error: 'missing_params', message: 'Provide ?link=<post id>&children=<comma-separated ids>' }, 400,
+    )};
+  }
+
+  if (!MORE_ID_RE.test(link) || !ids.every(id => MORE_ID_RE.test(id))) {
+    return { ok: false, response: jsonResponse(
+      { error: 'invalid_params', message: 'Post and comment ids must be base-36' }, 400,
+    )};
+  }
+
+  if (ids.length > MORE_BATCH_SIZE) {
+    return { ok: false, response: jsonResponse(
+      { error: 'invalid_params', message: `At most ${MORE_BATCH_SIZE} comment ids per request` }, 400,
+    )};
+  }
+
+  return { ok: true, jsonUrl: moreChildrenUrl(link, ids) };
+}
+
+function moreChildrenUrl(link: string, ids: string[]): string {
+  const query = new URLSearchParams({
+    api_type: 'json',
+    link_id: `t3_${link.replace(/^t3_/, '')}`,
+    children: ids.join(','),
+  });
+  return `https://www.reddit.com/api/morechildren.json?${query}`;
+}
+
+type UpstreamResult =
+  | { ok: true; upstream: Response }
+  | { ok: false; response: Response };
+
+/** GET from Reddit with a timeout, mapping network failures to JSON errors */
+async function fetchUpstream(url: string, redirect: RequestInit['redirect'] = 'follow'): Promise<UpstreamResult> {
   const controller = new AbortController();
   const timeout = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
 
-  let upstream: Response;
   try {
-    upstream = await fetch(jsonUrl, {
+    const upstream = await fetch(url, {
       method: 'GET',
       headers: { 'User-Agent': UPSTREAM_UA },
+      redirect,
       signal: controller.signal,
     });
+    return { ok: true, upstream };
   } catch (err: unknown) {
     const isTimeout =
       err instanceof DOMException && err.name === 'AbortError';
@@ -118,11 +323,135 @@ async function fetchRedditJson(jsonUrl: string): Promise<FetchResult> {
   } finally {
     clearTimeout(timeout);
   }
+}
+
+type ResolveResult =
+  | { ok: true; url: string | null }
+  | { ok: false; response: Response };
+
+/**
+ * Follow a redd.it or `/s/` share link to the thread it points at. Redirects
+ * are followed by hand so every hop can be checked against Reddit's hosts.
+ * Anything that isn't a share link is returned as-is for validateRedditUrl.
+ * Each hop reaches Reddit, so each one is charged to the client.
+ */
+async function resolveShareLink(targetParam: string | null, upstream: UpstreamContext): Promise<ResolveResult> {
+  if (!targetParam || !isShareLink(targetParam)) return { ok: true, url: targetParam };
+
+  let current = new URL(targetParam);
+  for (let hop = 0; hop < MAX_REDIRECTS; hop++) {
+    const limited = await upstream.takeToken();
+    if (!limited.ok) return limited;
+
+    const result = await fetchUpstream(current.toString(), 'manual');
+    if (!result.ok) return result;
+    const redirect = result.upstream;
+    await redirect.body?.cancel();
+
+    const location = redirect.headers.get('Location');
+    if (redirect.status < 300 || redirect.status >= 400 || !location) {
+      return { ok: false, response: redirect.ok
+        ? jsonResponse({ error: 'unresolved_link', message: 'Reddit did not say where this link points' }, 502)
+        : jsonResponse({ error: 'upstream_error', message: `Reddit returned HTTP ${redirect.status}` }, 502),
+      };
+    }
+
+    const next = new URL(location, current);
+    if (next.protocol !== 'https:' || !isRedditHost(next.hostname)) {
+      return { ok: false, response: jsonResponse(
+        { error: 'redirect_not_allowed', message: 'This link redirects away from Reddit' }, 400,
+      )};
+    }
+    if (!isShareLink(next.toString())) return { ok: true, url: next.toString() };
+    current = next;
+  }
+
+  return { ok: false, response: jsonResponse(
+    { error: 'too_many_redirects', message: `Gave up after ${MAX_REDIRECTS} redirects` }, 502,
+  )};
+}
+
+/** Why a cached copy older than CACHE_TTL_SECONDS was served */
+type StaleReason = 'revalidating' | 'upstream-error';
+
+/** Where a body came from: a fresh cached copy, Reddit, or a stale cached copy */
+type CacheStatus = 'HIT' | 'MISS' | 'STALE';
+
+/** Milliseconds spent on each step, for Server-Timing */
+interface FetchTimings {
+  upstream?: number;
+  parse: number;
+}
+
+type FetchResult =
+  // retrievedUtc: when Reddit sent the body, even if it came from the cache
+  | {
+    ok: true; body: string; data: unknown; retrievedUtc: number;
+    cache: CacheStatus; stale: StaleReason | null; timings: FetchTimings;
+  }
+  // transient: Reddit was rate-limiting, down or unreachable, so a stale copy beats the error
+  | { ok: false; response: Response; transient?: boolean };
+
+/** Per-request settings for reaching Reddit */
+interface UpstreamContext {
+  // Tags the upstream log lines, so they can be matched to the request
+  requestId: string;
+  // Charges the client for each request that reaches Reddit
+  takeToken: TakeToken;
+  // Keeps a background refresh running after the response has gone
+  waitUntil?: (promise: Promise<unknown>) => void;
+  // How old a cached copy can be and still stand in for an upstream failure
+  staleIfErrorSeconds: number;
+}
+
+// Internal header on cached upstream responses: the epoch seconds they were fetched
+const RETRIEVED_AT_HEADER = 'X-Retrieved-At';
+// On responses built from a stale copy, with its StaleReason
+const STALE_HEADER = 'X-R2MD-Stale';
+// On responses built from Reddit JSON, with its CacheStatus
+const CACHE_HEADER = 'X-R2MD-Cache';
+
+function nowSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+/** Cache status, stale marker and Server-Timing for a response built from Reddit JSON */
+function upstreamHeaders(
+  result: { cache: CacheStatus; stale: StaleReason | null; timings: FetchTimings },
+): Record<string, string> {
+  const timing = Object.entries(result.timings).map(([step, ms]) => `${step};dur=${ms}`);
+  return {
+    [CACHE_HEADER]: result.cache,
+    ...(result.stale ? { [STALE_HEADER]: result.stale } : {}),
+    'Server-Timing': timing.join(', '),
+  };
+}
+
+/** How long a cached copy is kept, so it can be served stale after CACHE_TTL_SECONDS */
+function cacheKeepSeconds(upstream: UpstreamContext): number {
+  return CACHE_TTL_SECONDS + Math.max(STALE_WHILE_REVALIDATE_SECONDS, upstream.staleIfErrorSeconds);
+}
+
+/** Fetch from Reddit and cache the response, kept long enough to serve stale */
+async function refreshRedditJson(jsonUrl: string, upstreamCtx: UpstreamContext): Promise<FetchResult> {
+  // Fetch from Reddit with timeout
+  const startedAt = Date.now();
+  const result = await fetchUpstream(jsonUrl);
+  logEvent({
+    event: 'upstream',
+    requestId: upstreamCtx.requestId,
+    url: jsonUrl,
+    status: result.ok ? result.upstream.status : null,
+    error: result.ok ? undefined : 'unreachable',
+    durationMs: Date.now() - startedAt,
+  });
+  if (!result.ok) return { ...result, transient: true };
+  const { upstream } = result;
 
   // Map non-200 statuses
   if (upstream.status === 429) {
     const retryAfter = upstream.headers.get('Retry-After');
-    return { ok: false, response: jsonResponse(
+    return { ok: false, transient: true, response: jsonResponse(
       { error: 'rate_limited', message: 'Reddit is rate-limiting requests' },
       429,
       retryAfter ? { 'Retry-After': retryAfter } : undefined,
@@ -134,7 +463,7 @@ async function fetchRedditJson(jsonUrl: string): Promise<FetchResult> {
     )};
   }
   if (!upstream.ok) {
-    return { ok: false, response: jsonResponse(
+    return { ok: false, transient: upstream.status >= 500, response: jsonResponse(
       { error: 'upstream_error', message: `Reddit returned HTTP ${upstream.status}` }, 502,
     )};
   }
@@ -148,10 +477,12 @@ async function fetchRedditJson(jsonUrl: string): Promise<FetchResult> {
   }
 
   // Read body with size guard
-  const body = await upstream.text();
-  if (body.length > MAX_RESPONSE_BYTES) {
+  const body = await readCappedText(upstream, MAX_RESPONSE_BYTES);
+  if (body === null) {
     return { ok: false, response: jsonResponse({ error: 'response_too_large', message: 'Response exceeded 5 MB limit' }, 502) };
   }
+  const parseStartedAt = Date.now();
+  const upstreamMs = parseStartedAt - startedAt;
 
   // Validate JSON
   let data: unknown;
@@ -160,32 +491,287 @@ async function fetchRedditJson(jsonUrl: string): Promise<FetchResult> {
   } catch {
     return { ok: false, response: jsonResponse({ error: 'upstream_parse_error', message: 'Reddit returned invalid JSON' }, 502) };
   }
+  const timings = { upstream: upstreamMs, parse: Date.now() - parseStartedAt };
 
-  // Cache for next time
+  // Cache for next time; freshness is judged by RETRIEVED_AT_HEADER, so the
+  // entry outlives CACHE_TTL_SECONDS to be served stale
+  const retrievedUtc = nowSeconds();
   const response = new Response(body, {
     status: 200,
     headers: {
       'Content-Type': 'application/json',
-      'Cache-Control': `public, max-age=${CACHE_TTL_SECONDS}`,
+      'Cache-Control': `public, max-age=${cacheKeepSeconds(upstreamCtx)}`,
+      [RETRIEVED_AT_HEADER]: String(retrievedUtc),
     },
   });
-  await cache.put(cacheKey, response.clone());
+  await caches.default.put(new Request(jsonUrl), response);
+
+  return { ok: true, body, data, retrievedUtc, cache: 'MISS', stale: null, timings };
+}
+
+/** A FetchResult as plain data, with a failure's Response taken apart */
+type SharedFetch =
+  | Extract<FetchResult, { ok: true }>
+  | { ok: false; transient?: boolean; status: number; headers: [string, string][]; body: string };
+
+// Upstream fetches under way in this isolate, by URL. Other requests join
+// them, and a Response can only be used by the request that made it, so
+// they hold data that each caller builds its own Response from.
+const inFlight = new Map<string, Promise<SharedFetch>>();
+
+/** Share one upstream fetch between concurrent requests for the same URL */
+function coalescedRefresh(jsonUrl: string, upstream: UpstreamContext): Promise<FetchResult> {
+  let pending = inFlight.get(jsonUrl);
+  if (!pending) {
+    pending = refreshRedditJson(jsonUrl, upstream)
+      .then(async (result): Promise<SharedFetch> => (result.ok ? result : {
+        ok: false,
+        transient: result.transient,
+        status: result.response.status,
+        headers: [...result.response.headers],
+        body: await result.response.text(),
+      }))
+      .finally(() => inFlight.delete(jsonUrl));
+    inFlight.set(jsonUrl, pending);
+    // Others may be waiting on it, so it runs on if this request goes away
+    upstream.waitUntil?.(pending);
+  }
+  return pending.then(shared => (shared.ok ? shared : {
+    ok: false,
+    transient: shared.transient,
+    response: new Response(shared.body, { status: shared.status, headers: shared.headers }),
+  }));
+}
+
+async function fetchFromReddit(jsonUrl: string, upstream: UpstreamContext): Promise<FetchResult> {
+  // Joining a fetch that's already on its way costs the client nothing
+  if (!inFlight.has(jsonUrl)) {
+    const limited = await upstream.takeToken();
+    if (!limited.ok) return limited;
+  }
+  return coalescedRefresh(jsonUrl, upstream);
+}
+
+/**
+ * Reddit JSON through the edge cache. A copy up to CACHE_TTL_SECONDS old is
+ * served as is; for STALE_WHILE_REVALIDATE_SECONDS after that it's served
+ * while a background fetch refreshes it; older copies are only served when
+ * Reddit fails. Only requests that reach Reddit are charged to the client,
+ * background refreshes included.
+ */
+async function fetchRedditJson(jsonUrl: string, upstream: UpstreamContext): Promise<FetchResult> {
+  const cached = await caches.default.match(new Request(jsonUrl));
+  if (!cached) return fetchFromReddit(jsonUrl, upstream);
+
+  const body = await cached.text();
+  const retrievedUtc = Number(cached.headers.get(RETRIEVED_AT_HEADER)) || nowSeconds();
+  const age = nowSeconds() - retrievedUtc;
+  const copy = (stale: StaleReason | null): FetchResult => {
+    const parseStartedAt = Date.now();
+    const data = JSON.parse(body);
+    const timings = { parse: Date.now() - parseStartedAt };
+    return { ok: true, body, data, retrievedUtc, cache: stale ? 'STALE' : 'HIT', stale, timings };
+  };
+
+  if (age < CACHE_TTL_SECONDS) return copy(null);
+  if (age < CACHE_TTL_SECONDS + STALE_WHILE_REVALIDATE_SECONDS) {
+    // With the client's bucket empty there's no refresh, and the copy is served as is
+    upstream.waitUntil?.(fetchFromReddit(jsonUrl, upstream));
+    return copy('revalidating');
+  }
+
+  const fresh = await fetchFromReddit(jsonUrl, upstream);
+  if (!fresh.ok && fresh.transient && age < CACHE_TTL_SECONDS + upstream.staleIfErrorSeconds) {
+    return copy('upstream-error');
+  }
+  return fresh;
+}
+
+// --- Rate limiting ---
+
+// Every caller shares our one upstream identity, so each client IP gets a
+// token bucket: a request that reaches Reddit takes a token, and tokens come
+// back at a steady rate. The buckets live in a Durable Object per IP, which
+// serialises the requests for one client across all of the Worker's isolates.
+// Crawler previews get a separate, larger bucket: a chat app unfurls links for
+// many people from a few addresses, and anyone can claim to be a crawler.
+// Snapshot writes get a small bucket of their own, so no one client can fill KV.
+
+const DEFAULT_RATE_LIMIT_PER_MINUTE = 30;
+const DEFAULT_CRAWLER_RATE_LIMIT_BURST = 120;
+const DEFAULT_CRAWLER_RATE_LIMIT_PER_MINUTE = 60;
+const DEFAULT_SNAPSHOT_RATE_LIMIT_BURST = 10;
+const DEFAULT_SNAPSHOT_RATE_LIMIT_PER_MINUTE = 1;
+
+/** Which of a client's buckets a request is charged to */
+type RateLimitBucket = 'upstream' | 'crawler' | 'snapshot';
+
+interface TokenBucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+type TakeTokenResult =
+  | { ok: true }
+  | { ok: false; response: Response };
+
+type TakeToken = () => Promise<TakeTokenResult>;
+
+/** A positive number from a [vars] setting; a missing or invalid one gets the default */
+function positiveSetting(value: string | undefined, fallback: number): number {
+  const n = Number(value);
+  return value && Number.isFinite(n) && n > 0 ? n : fallback;
+}
+
+/** One client's token bucket */
+export class RateLimiter {
+  constructor(private readonly state: DurableObjectState) {}
+
+  async fetch(request: Request): Promise<Response> {
+    const { burst, perMinute } = await request.json<{ burst: number; perMinute: number }>();
+    const now = Date.now();
+    const refillPerMs = perMinute / 60_000;
+
+    const saved = await this.state.storage.get<TokenBucket>('bucket');
+    const tokens = saved ? Math.min(burst, saved.tokens + (now - saved.updatedAt) * refillPerMs) : burst;
+    const allowed = tokens >= 1;
+    const left = allowed ? tokens - 1 : tokens;
+    await this.state.storage.put<TokenBucket>('bucket', { tokens: left, updatedAt: now });
+    // A full bucket is the same as none, so the client is forgotten once it refills
+    await this.state.storage.setAlarm(now + Math.ceil((burst - left) / refillPerMs));
+
+    return Response.json(allowed
+      ? { allowed }
+      : { allowed, retryAfter: Math.ceil((1 - left) / refillPerMs / 1000) });
+  }
+
+  async alarm(): Promise<void> {
+    await this.state.storage.deleteAll();
+  }
+}
+
+/** A bucket's size and refill rate from its [vars] settings */
+function bucketLimits(env: Env, bucket: RateLimitBucket): { burst: number; perMinute: number } {
+  switch (bucket) {
+    case 'upstream':
+      return {
+        burst: positiveSetting(env.RATE_LIMIT_BURST, DEFAULT_RATE_LIMIT_BURST),
+        perMinute: positiveSetting(env.RATE_LIMIT_PER_MINUTE, DEFAULT_RATE_LIMIT_PER_MINUTE),
+      };
+    case 'crawler':
+      return {
+        burst: positiveSetting(env.CRAWLER_RATE_LIMIT_BURST, DEFAULT_CRAWLER_RATE_LIMIT_BURST),
+        perMinute: positiveSetting(env.CRAWLER_RATE_LIMIT_PER_MINUTE, DEFAULT_CRAWLER_RATE_LIMIT_PER_MINUTE),
+      };
+    case 'snapshot':
+      return {
+        burst: positiveSetting(env.SNAPSHOT_RATE_LIMIT_BURST, DEFAULT_SNAPSHOT_RATE_LIMIT_BURST),
+        perMinute: positiveSetting(env.SNAPSHOT_RATE_LIMIT_PER_MINUTE, DEFAULT_SNAPSHOT_RATE_LIMIT_PER_MINUTE),
+      };
+  }
+}
+
+/** Takes a token from one of the client's buckets, or returns our own 429 once it's empty */
+function clientRateLimit(request: Request, env: Env, bucketName: RateLimitBucket = 'upstream'): TakeToken {
+  const client = request.headers.get('CF-Connecting-IP') || 'unknown';
+  const { burst, perMinute } = bucketLimits(env, bucketName);
+  // The upstream bucket predates the others, so it keeps the bare IP as its name
+  const name = bucketName === 'upstream' ? client : `${bucketName}:${client}`;
+
+  return async () => {
+    let verdict: { allowed: boolean; retryAfter?: number };
+    try {
+      const bucket = env.RATE_LIMITER.get(env.RATE_LIMITER.idFromName(name));
+      const response = await bucket.fetch('https://rate-limiter/take', {
+        method: 'POST',
+        body: JSON.stringify({ burst, perMinute }),
+      });
+      verdict = await response.json();
+    } catch (err) {
+      // A broken limiter shouldn't take the proxy down with it
+      console.error('[r2md] Rate limiter failed:', err);
+      return { ok: true };
+    }
+    if (verdict.allowed) return { ok: true };
 
-  return { ok: true, body, data };
+    const retryAfter = String(verdict.retryAfter ?? 60);
+    return { ok: false, response: jsonResponse(
+      { error: 'too_many_requests', message: `Too many requests \u2014 try again in ${retryAfter} s` },
+      429,
+      { 'Retry-After': retryAfter },
+    )};
+  };
+}
+
+/** How this request reaches Reddit, charged to one of the client's buckets */
+function upstreamContext(
+  request: Request,
+  env: Env,
+  ctx?: ExecutionContext,
+  bucket: RateLimitBucket = 'upstream',
+): UpstreamContext {
+  return {
+    requestId: requestIdFor(request),
+    takeToken: clientRateLimit(request, env, bucket),
+    waitUntil: ctx && (promise => ctx.waitUntil(promise)),
+    staleIfErrorSeconds: positiveSetting(env.STALE_IF_ERROR_SECONDS, DEFAULT_STALE_IF_ERROR_SECONDS),
+  };
 }
 
 // --- Reddit proxy handler ---
 
-async function handleRedditProxy(request: Request): Promise<Response> {
+async function handleRedditProxy(request: Request, env: Env, ctx?: ExecutionContext): Promise<Response> {
   if (request.method !== 'GET') {
     return jsonResponse({ error: 'method_not_allowed' }, 405);
   }
 
+  const upstream = upstreamContext(request, env, ctx);
   const requestUrl = new URL(request.url);
-  const validated = validateRedditUrl(requestUrl.searchParams.get('url'));
+  const resolved = await resolveShareLink(requestUrl.searchParams.get('url'), upstream);
+  if (!resolved.ok) return resolved.response;
+  const validated = validateRedditUrl(resolved.url);
+  if (!validated.ok) return validated.response;
+
+  const result = await fetchRedditJson(validated.jsonUrl, upstream);
+  if (!result.ok) return result.response;
+
+  return new Response(result.body, {
+    status: 200,
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': `public, max-age=${CACHE_TTL_SECONDS}`,
+      ...upstreamHeaders(result),
+    },
+  });
+}
+
+// --- Resolve handler ---
+
+/** The canonical thread URL for any accepted shape, so the client can fetch it directly */
+async function handleResolve(request: Request, env: Env, ctx?: ExecutionContext): Promise<Response> {
+  if (request.method !== 'GET') {
+    return jsonResponse({ error: 'method_not_allowed' }, 405);
+  }
+
+  const resolved = await resolveShareLink(new URL(request.url).searchParams.get('url'), upstreamContext(request, env, ctx));
+  if (!resolved.ok) return resolved.response;
+  const validated = validateRedditUrl(resolved.url);
   if (!validated.ok) return validated.response;
 
-  const result = await fetchRedditJson(validated.jsonUrl);
+  return jsonResponse({ url: validated.canonicalUrl }, 200);
+}
+
+// --- Load-more handler ---
+
+async function handleMoreChildren(request: Request, env: Env, ctx?: ExecutionContext): Promise<Response> {
+  if (request.method !== 'GET') {
+    return jsonResponse({ error: 'method_not_allowed' }, 405);
+  }
+
+  const validated = validateMoreRequest(new URL(request.url).searchParams);
+  if (!validated.ok) return validated.response;
+
+  const result = await fetchRedditJson(validated.jsonUrl, upstreamContext(request, env, ctx));
   if (!result.ok) return result.response;
 
   return new Response(result.body, {
@@ -193,8 +779,211 @@ async function handleRedditProxy(request: Request): Promise<Response> {
     headers: {
       'Content-Type': 'application/json',
       'Cache-Control': `public, max-age=${CACHE_TTL_SECONDS}`,
+      ...upstreamHeaders(result),
+    },
+  });
+}
+
+// --- Markdown handler ---
+
+/** Resolve stubs by calling Reddit directly, sharing the proxy's cache and the client's rate limit */
+function workerExpandSource(upstream: UpstreamContext): ExpandSource {
+  return {
+    async moreChildren(linkId, ids) {
+      const result = await fetchRedditJson(moreChildrenUrl(linkId, ids), upstream);
+      if (!result.ok) throw new Error(`morechildren failed with HTTP ${result.response.status}`);
+      return result.data;
+    },
+    async commentThread(permalink) {
+      const validated = validateRedditUrl(`https://www.reddit.com${permalink}`);
+      if (!validated.ok) throw new Error(`Not a comment permalink: ${permalink}`);
+      const result = await fetchRedditJson(validated.jsonUrl, upstream);
+      if (!result.ok) throw new Error(`Permalink fetch failed with HTTP ${result.response.status}`);
+      return result.data;
     },
+  };
+}
+
+async function handleMarkdown(request: Request, env: Env, ctx?: ExecutionContext): Promise<Response> {
+  if (request.method !== 'GET') {
+    return jsonResponse({ error: 'method_not_allowed' }, 405);
+  }
+  const upstream = upstreamContext(request, env, ctx);
+
+  const requestUrl = new URL(request.url);
+  const options = optionsFromParams(requestUrl.searchParams);
+  const resolved = await resolveShareLink(requestUrl.searchParams.get('url'), upstream);
+  if (!resolved.ok) return resolved.response;
+  const target = resolved.url && withThreadQuery(resolved.url, options);
+  const validated = validateRedditUrl(target);
+  if (!validated.ok) return validated.response;
+  if (validated.kind === 'user') {
+    return handleUserHistory(validated.jsonUrl, validated.canonicalUrl, requestUrl.searchParams, upstream);
+  }
+
+  const result = await fetchRedditJson(validated.jsonUrl, upstream);
+  if (!result.ok) return result.response;
+
+  const parsed = parseThread(result.data);
+  if (!parsed) {
+    return jsonResponse(
+      { error: 'upstream_parse_error', message: 'Reddit returned something other than a thread' }, 502,
+    );
+  }
+  let thread: Thread | null = { ...parsed, retrievedUtc: result.retrievedUtc };
+
+  // A comment permalink converts only that comment's branch
+  const focus = target ? focusFromUrl(target) : null;
+  if (focus) {
+    thread = focusThread(thread, focus.commentId, focus.context);
+    if (!thread) {
+      return jsonResponse(
+        { error: 'comment_not_found', message: 'That comment is not in the thread — it may have been deleted' }, 404,
+      );
+    }
+  }
+
+  // Partial expansion is still useful; unresolved stubs are reported as omitted
+  if (options.fullThread) {
+    const expanded = await expandThread(thread, workerExpandSource(upstream), { maxRequests: MAX_EXPAND_REQUESTS });
+    thread = expanded.thread;
+  }
+
+  return markdownResponse(threadToMarkdown(thread, options), upstreamHeaders(result));
+}
+
+// --- User history ---
+
+/**
+ * Follow a user's comments or posts page by page through Reddit's `after`
+ * cursor, up to `?pages=`. The pages together are held to the same size
+ * limit as a single response; a later page failing keeps what loaded.
+ */
+async function handleUserHistory(
+  jsonUrl: string,
+  canonicalUrl: string,
+  params: URLSearchParams,
+  upstream: UpstreamContext,
+): Promise<Response> {
+  const maxPages = historyPagesFromParams(params);
+  const items: HistoryItem[] = [];
+  let stoppedBy: UserHistory['stoppedBy'] = null;
+  let pages = 0;
+  let bytes = 0;
+  let pageUrl = new URL(jsonUrl);
+
+  for (;;) {
+    const result = await fetchRedditJson(pageUrl.toString(), upstream);
+    if (!result.ok) {
+      if (pages === 0) return result.response;
+      stoppedBy = 'error';
+      break;
+    }
+
+    // The cap is in bytes; comments in other scripts take several per character
+    bytes += new TextEncoder().encode(result.body).byteLength;
+    if (bytes > MAX_RESPONSE_BYTES) {
+      stoppedBy = 'size';
+      break;
+    }
+
+    const page = parseHistoryPage(result.data);
+    if (!page) {
+      if (pages === 0) {
+        return jsonResponse(
+          { error: 'upstream_parse_error', message: 'Reddit returned something other than a user\u2019s history' }, 502,
+        );
+      }
+      stoppedBy = 'error';
+      break;
+    }
+
+    items.push(...page.items);
+    pages++;
+    if (!page.after) break;
+    if (pages >= maxPages) {
+      stoppedBy = 'pages';
+      break;
+    }
+    pageUrl = new URL(pageUrl);
+    pageUrl.searchParams.set('after', page.after);
+  }
+
+  const { username, kind } = parseHistoryUrl(canonicalUrl)!;
+  return markdownResponse(historyToMarkdown({ username, kind, items, pages, stoppedBy }));
+}
+
+// --- Digest handler ---
+
+/** Permalinks of a listing's posts in order, stickied posts left out; null if it isn't a listing */
+function listingPermalinks(data: unknown): string[] | null {
+  const children = (data as { data?: { children?: unknown } })?.data?.children;
+  if (!Array.isArray(children)) return null;
+  return children
+    .map(child => (child as { kind?: string; data?: { permalink?: unknown; stickied?: unknown } }))
+    .filter(child => child.kind === 't3' && !child.data?.stickied && typeof child.data?.permalink === 'string')
+    .map(child => child.data!.permalink as string);
+}
+
+/** Run `task` over `items` with at most `limit` in flight; results keep the items' order */
+async function mapWithConcurrency<T, R>(items: T[], limit: number, task: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const run = async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await task(items[i]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, run));
+  return results;
+}
+
+/** The top threads of a subreddit listing as one markdown document */
+async function handleDigest(request: Request, env: Env, ctx?: ExecutionContext): Promise<Response> {
+  if (request.method !== 'GET') {
+    return jsonResponse({ error: 'method_not_allowed' }, 405);
+  }
+  const upstream = upstreamContext(request, env, ctx);
+
+  const requestUrl = new URL(request.url);
+  const options = optionsFromParams(requestUrl.searchParams);
+  const size = digestSizeFromParams(requestUrl.searchParams);
+  const validated = validateListingUrl(requestUrl.searchParams.get('url'));
+  if (!validated.ok) return validated.response;
+  const { listing } = validated;
+
+  const result = await fetchRedditJson(listingJsonUrl(listing, size.threads + MAX_STICKIED_POSTS), upstream);
+  if (!result.ok) return result.response;
+
+  const permalinks = listingPermalinks(result.data);
+  if (!permalinks) {
+    return jsonResponse(
+      { error: 'upstream_parse_error', message: 'Reddit returned something other than a listing' }, 502,
+    );
+  }
+
+  // A thread that fails to load is counted in the digest rather than failing it
+  const loaded = await mapWithConcurrency(permalinks.slice(0, size.threads), DIGEST_CONCURRENCY, async permalink => {
+    const validatedThread = validateRedditUrl(withThreadQuery(`https://www.reddit.com${permalink}`, options));
+    if (!validatedThread.ok) return null;
+    // Only a few top-level comments are shown, so Reddit needn't send the rest
+    const jsonUrl = new URL(validatedThread.jsonUrl);
+    jsonUrl.searchParams.set('limit', String(size.comments + DIGEST_COMMENT_HEADROOM));
+    jsonUrl.searchParams.set('depth', '1');
+    const threadResult = await fetchRedditJson(jsonUrl.toString(), upstream);
+    return threadResult.ok ? parseThread(threadResult.data) : null;
   });
+  const threads = loaded.filter((thread): thread is Thread => thread !== null);
+
+  return markdownResponse(digestToMarkdown({
+    title: describeListing(listing),
+    subreddit: listing.subreddit,
+    source: listingPageUrl(listing),
+    threads,
+    failed: loaded.length - threads.length,
+    comments: size.comments,
+  }, options));
 }
 
 // --- OG meta tag handler for crawlers ---
@@ -203,10 +992,20 @@ function buildOgHtml(
   title: string,
   description: string,
   canonicalUrl: string,
+  imageUrl?: string,
 ): string {
   const t = escapeHtml(title);
   const d = escapeHtml(description);
   const u = escapeHtml(canonicalUrl);
+  const image = imageUrl
+    ? `
+  <meta property="og:image" content="${escapeHtml(imageUrl)}">
+  <meta property="og:image:type" content="image/png">
+  <meta property="og:image:width" content="${CARD_WIDTH}">
+  <meta property="og:image:height" content="${CARD_HEIGHT}">
+  <meta name="twitter:card" content="summary_large_image">`
+    : `
+  <meta name="twitter:card" content="summary">`;
   return `<!DOCTYPE html>
 <html>
 <head>
@@ -216,8 +1015,7 @@ function buildOgHtml(
   <meta property="og:description" content="${d}">
   <meta property="og:site_name" content="R\u2192MD">
   <meta property="og:type" content="article">
-  <meta property="og:url" content="${u}">
-  <meta name="twitter:card" content="summary">
+  <meta property="og:url" content="${u}">${image}
 </head>
 <body>
   <p>Redirecting to <a href="${u}">R\u2192MD</a>\u2026</p>
@@ -225,10 +1023,18 @@ function buildOgHtml(
 </html>`;
 }
 
-async function handleOgPreview(redditUrl: string): Promise<Response> {
+async function handleOgPreview(
+  redditUrl: string,
+  request: Request,
+  env: Env,
+  ctx?: ExecutionContext,
+): Promise<Response> {
   const canonicalUrl = `https://peirce.net/reddit?url=${encodeURIComponent(redditUrl)}`;
 
-  const validated = validateRedditUrl(redditUrl);
+  // Crawlers unfurl from a few shared addresses, so they have a bucket of their own
+  const upstream = upstreamContext(request, env, ctx, 'crawler');
+  const resolved = await resolveShareLink(redditUrl, upstream);
+  const validated = validateRedditUrl(resolved.ok ? resolved.url : null);
   if (!validated.ok) {
     // Fallback: generic OG tags
     return htmlResponse(buildOgHtml(
@@ -238,7 +1044,7 @@ async function handleOgPreview(redditUrl: string): Promise<Response> {
     ));
   }
 
-  const result = await fetchRedditJson(validated.jsonUrl);
+  const result = await fetchRedditJson(validated.jsonUrl, upstream);
   if (!result.ok) {
     // Fallback: generic OG tags
     return htmlResponse(buildOgHtml(
@@ -249,9 +1055,9 @@ async function handleOgPreview(redditUrl: string): Promise<Response> {
   }
 
   // Extract thread metadata
-  const data = result.data as any[];
-  const post = data?.[0]?.data?.children?.[0]?.data;
-  if (!post?.title) {
+  const thread = parseThread(result.data);
+  const post = thread?.post;
+  if (!thread || !post?.title) {
     return htmlResponse(buildOgHtml(
       'Reddit Thread \u2014 R\u2192MD',
       'Convert Reddit threads to clean markdown',
@@ -263,8 +1069,246 @@ async function handleOgPreview(redditUrl: string): Promise<Response> {
   const author = post.author || 'unknown';
   const subreddit = post.subreddit || 'reddit';
   const description = `u/${author} in r/${subreddit} \u2014 converted to markdown`;
+  const imageUrl = cardUrl(validated.canonicalUrl);
+
+  // For a comment permalink, describe the comment rather than the post
+  const focus = focusFromUrl(validated.canonicalUrl);
+  const comment = focus && findComment(thread.comments, focus.commentId);
+  if (comment) {
+    return htmlResponse(buildOgHtml(
+      `u/${comment.author} on \u201c${title}\u201d`,
+      excerpt(comment.body, OG_EXCERPT_LENGTH),
+      canonicalUrl,
+      imageUrl,
+    ));
+  }
+
+  return htmlResponse(buildOgHtml(title, description, canonicalUrl, imageUrl));
+}
+
+// --- OG card image ---
+
+/** The card image for a thread, as linked from its OG tags */
+function cardUrl(redditUrl: string): string {
+  return `https://peirce.net/reddit/api/card?url=${encodeURIComponent(redditUrl)}`;
+}
+
+/**
+ * The og:image card for a thread. Crawlers fetch it, so it's charged to the
+ * crawler bucket: a token for the thread if it isn't cached, and one for
+ * drawing the card. Drawn cards are cached against the copy of the thread
+ * they were drawn from, so they're redrawn only when it's refreshed.
+ */
+async function handleOgCard(request: Request, env: Env, ctx?: ExecutionContext): Promise<Response> {
+  if (request.method !== 'GET') {
+    return jsonResponse({ error: 'method_not_allowed' }, 405);
+  }
+
+  const validated = validateRedditUrl(new URL(request.url).searchParams.get('url'));
+  if (!validated.ok) return validated.response;
+  if (validated.kind !== 'thread') {
+    return jsonResponse({ error: 'invalid_path', message: 'Cards are drawn for threads only' }, 400);
+  }
+
+  const upstream = upstreamContext(request, env, ctx, 'crawler');
+  const result = await fetchRedditJson(validated.jsonUrl, upstream);
+  if (!result.ok) return result.response;
+
+  const headers = {
+    'Content-Type': 'image/png',
+    'Cache-Control': `public, max-age=${CACHE_TTL_SECONDS}`,
+    ...upstreamHeaders(result),
+  };
+  const cacheKey = new Request(`${cardUrl(validated.canonicalUrl)}&v=${result.retrievedUtc}`);
+  const cached = await caches.default.match(cacheKey);
+  if (cached) return new Response(cached.body, { status: 200, headers });
+
+  const thread = parseThread(result.data);
+  if (!thread) {
+    return jsonResponse(
+      { error: 'upstream_parse_error', message: 'Reddit returned something other than a thread' }, 502,
+    );
+  }
 
-  return htmlResponse(buildOgHtml(title, description, canonicalUrl));
+  const limited = await upstream.takeToken();
+  if (!limited.ok) return limited.response;
+
+  const png = await renderCardPng(buildCardSvg(thread.post));
+  await caches.default.put(cacheKey, new Response(png, {
+    headers: { 'Content-Type': 'image/png', 'Cache-Control': `public, max-age=${cacheKeepSeconds(upstream)}` },
+  }));
+  return new Response(png, { status: 200, headers });
+}
+
+// --- Snapshots ---
+
+// Converted markdown stored in KV, so a share link shows what the sharer saw
+// even after the thread changes or is deleted.
+
+const SNAPSHOT_KEY_PREFIX = 'snapshot:';
+const SNAPSHOT_ID_LENGTH = 10;
+const SNAPSHOT_ID_RE = /^[A-Za-z0-9]{10}$/;
+const SNAPSHOT_ID_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+const SNAPSHOT_PAGE_RE = /^\/reddit\/s\/([^/]+)\/?$/;
+const MAX_SNAPSHOT_BYTES = 1024 * 1024; // 1 MB of request body
+const MAX_SNAPSHOT_TITLE_LENGTH = 300;
+const DEFAULT_SNAPSHOT_TTL_DAYS = 30;
+const MAX_SNAPSHOT_TTL_DAYS = 365;
+const MIN_KV_TTL_SECONDS = 60; // KV rejects anything shorter
+
+interface Snapshot {
+  title: string;
+  url: string;
+  markdown: string;
+  layout: CommentLayout;
+  createdAt: number;
+}
+
+type ParseSnapshotResult =
+  | { ok: true; snapshot: Snapshot }
+  | { ok: false; response: Response };
+
+function invalidSnapshot(message: string): ParseSnapshotResult {
+  return { ok: false, response: jsonResponse({ error: 'invalid_snapshot', message }, 400) };
+}
+
+/** How long snapshots are kept, from SNAPSHOT_TTL_DAYS; a missing or invalid setting gets the default */
+function snapshotTtlSeconds(env: Env): number {
+  const days = Number(env.SNAPSHOT_TTL_DAYS);
+  const kept = Number.isFinite(days) && days > 0 ? Math.min(days, MAX_SNAPSHOT_TTL_DAYS) : DEFAULT_SNAPSHOT_TTL_DAYS;
+  return Math.max(Math.round(kept * 24 * 60 * 60), MIN_KV_TTL_SECONDS);
+}
+
+function newSnapshotId(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(SNAPSHOT_ID_LENGTH));
+  return Array.from(bytes, b => SNAPSHOT_ID_ALPHABET[b % SNAPSHOT_ID_ALPHABET.length]).join('');
+}
+
+function parseSnapshotBody(body: string): ParseSnapshotResult {
+  let input: Record<string, unknown>;
+  try {
+    const parsed: unknown = JSON.parse(body);
+    if (typeof parsed !== 'object' || parsed === null) return invalidSnapshot('Expected a JSON object');
+    input = parsed as Record<string, unknown>;
+  } catch {
+    return invalidSnapshot('Expected a JSON object');
+  }
+
+  const { title, url, markdown, layout } = input;
+  if (typeof title !== 'string' || !title.trim() || title.length > MAX_SNAPSHOT_TITLE_LENGTH) {
+    return invalidSnapshot(`title must be 1 to ${MAX_SNAPSHOT_TITLE_LENGTH} characters`);
+  }
+  if (typeof markdown !== 'string' || !markdown.trim()) {
+    return invalidSnapshot('markdown must not be empty');
+  }
+  if (layout !== undefined && (typeof layout !== 'string' || !isCommentLayout(layout))) {
+    return invalidSnapshot('layout is not a comment layout');
+  }
+  let source: URL;
+  try {
+    source = new URL(typeof url === 'string' ? url : '');
+  } catch {
+    return invalidSnapshot('url must be the Reddit URL that was converted');
+  }
+  if (source.protocol !== 'https:' || !isRedditHost(source.hostname)) {
+    return invalidSnapshot('url must be the Reddit URL that was converted');
+  }
+
+  return {
+    ok: true,
+    snapshot: {
+      title: title.trim(),
+      url: source.toString(),
+      markdown,
+      layout: layout ?? DEFAULT_OPTIONS.layout,
+      createdAt: nowSeconds(),
+    },
+  };
+}
+
+async function loadSnapshot(env: Env, id: string): Promise<Snapshot | null> {
+  if (!SNAPSHOT_ID_RE.test(id)) return null;
+  return env.SNAPSHOTS.get<Snapshot>(`${SNAPSHOT_KEY_PREFIX}${id}`, 'json');
+}
+
+/** POST stores a snapshot and returns its short link; GET ?id= returns a stored one */
+async function handleSnapshot(request: Request, env: Env): Promise<Response> {
+  const requestUrl = new URL(request.url);
+
+  if (request.method === 'GET') {
+    const snapshot = await loadSnapshot(env, requestUrl.searchParams.get('id') || '');
+    if (!snapshot) return jsonResponse({ error: 'snapshot_not_found' }, 404);
+    return jsonResponse({ ...snapshot }, 200, { 'Cache-Control': `public, max-age=${CACHE_TTL_SECONDS}` });
+  }
+  if (request.method !== 'POST') {
+    return jsonResponse({ error: 'method_not_allowed' }, 405);
+  }
+
+  // A chunked body has no Content-Length, so the cap is counted as it streams in
+  const body = await readCappedText(request, MAX_SNAPSHOT_BYTES);
+  if (body === null) {
+    return jsonResponse(
+      { error: 'snapshot_too_large', message: `Snapshots are limited to ${MAX_SNAPSHOT_BYTES} bytes` }, 413,
+    );
+  }
+
+  const parsed = parseSnapshotBody(body);
+  if (!parsed.ok) return parsed.response;
+
+  // Charged once the snapshot is known to be storable, so a rejected one costs nothing
+  const limited = await clientRateLimit(request, env, 'snapshot')();
+  if (!limited.ok) return limited.response;
+
+  const id = newSnapshotId();
+  const ttl = snapshotTtlSeconds(env);
+  try {
+    await env.SNAPSHOTS.put(`${SNAPSHOT_KEY_PREFIX}${id}`, JSON.stringify(parsed.snapshot), {
+      expirationTtl: ttl,
+      metadata: { title: parsed.snapshot.title },
+    });
+  } catch (err) {
+    // KV is briefly unavailable or over its write limit; the app falls back to a live link
+    logEvent({ event: 'snapshot_store', requestId: requestIdFor(request), error: String(err) });
+    return jsonResponse({ error: 'snapshot_store_failed', message: 'Could not store the snapshot' }, 503);
+  }
+
+  return jsonResponse({
+    id,
+    url: `${requestUrl.origin}/reddit/s/${id}`,
+    expiresAt: new Date((parsed.snapshot.createdAt + ttl) * 1000).toISOString(),
+  }, 201);
+}
+
+/** A snapshot's short link: preview tags for crawlers, the app for everyone else */
+async function handleSnapshotPage(request: Request, url: URL, id: string, env: Env): Promise<Response> {
+  const snapshot = await loadSnapshot(env, id);
+  if (!snapshot) {
+    return htmlResponse(`<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>Snapshot not found \u2014 R\u2192MD</title>
+</head>
+<body>
+  <p>This snapshot doesn\u2019t exist or has expired. <a href="/reddit">Convert a thread</a> instead.</p>
+</body>
+</html>`, 404);
+  }
+
+  if (isCrawler(request.headers.get('User-Agent') || '')) {
+    const saved = new Date(snapshot.createdAt * 1000).toISOString().slice(0, 10);
+    // Cards are drawn for threads only, so a snapshot of a user's history has none
+    const validated = validateRedditUrl(snapshot.url);
+    const imageUrl = validated.ok && validated.kind === 'thread' ? cardUrl(validated.canonicalUrl) : undefined;
+    return htmlResponse(buildOgHtml(
+      snapshot.title,
+      `Snapshot saved ${saved} \u2014 converted to markdown`,
+      `${url.origin}/reddit/s/${id}`,
+      imageUrl,
+    ));
+  }
+
+  return handlePagesProxy(request, url);
 }
 
 // --- Pages proxy ---
@@ -290,31 +1334,118 @@ async function handlePagesProxy(request: Request, url: URL): Promise<Response> {
   });
 }
 
+// --- Observability ---
+
+// Every /reddit/* response carries a request ID, and error bodies repeat it,
+// so a user can quote it and it can be found in the logs.
+const REQUEST_ID_HEADER = 'X-Request-Id';
+
+const requestIds = new WeakMap<Request, string>();
+
+/** The request's ID: Cloudflare's Ray ID where there is one, so it matches the dashboard */
+function requestIdFor(request: Request): string {
+  let requestId = requestIds.get(request);
+  if (!requestId) {
+    requestId = request.headers.get('CF-Ray') || crypto.randomUUID();
+    requestIds.set(request, requestId);
+  }
+  return requestId;
+}
+
+/** One structured log line; Workers Logs indexes the JSON fields */
+function logEvent(fields: Record<string, unknown>): void {
+  console.log(JSON.stringify(fields));
+}
+
+/** Add the request ID to a response's headers, and to its body if it's a JSON error */
+async function withRequestId(response: Response, requestId: string): Promise<Response> {
+  let body: BodyInit | null = response.body;
+  if (!response.ok && response.headers.get('Content-Type') === 'application/json') {
+    body = JSON.stringify({ ...(await response.json<Record<string, unknown>>()), requestId });
+  }
+  const tagged = new Response(body, response);
+  tagged.headers.set(REQUEST_ID_HEADER, requestId);
+  return tagged;
+}
+
 // --- Entrypoint ---
 
+/** The response for a /reddit/* request, before it is tagged with its ID */
+async function routeReddit(request: Request, url: URL, env: Env, ctx?: ExecutionContext): Promise<Response> {
+  // Route /reddit/api/fetch to the Reddit proxy
+  if (url.pathname === '/reddit/api/fetch') {
+    return handleRedditProxy(request, env, ctx);
+  }
+
+  // Route /reddit/api/resolve to share link resolution
+  if (url.pathname === '/reddit/api/resolve') {
+    return handleResolve(request, env, ctx);
+  }
+
+  // Route /reddit/api/more to the "load more comments" proxy
+  if (url.pathname === '/reddit/api/more') {
+    return handleMoreChildren(request, env, ctx);
+  }
+
+  // Route /reddit/api/markdown to the server-side converter
+  if (url.pathname === '/reddit/api/markdown') {
+    return handleMarkdown(request, env, ctx);
+  }
+
+  // Route /reddit/api/digest to subreddit listing digests
+  if (url.pathname === '/reddit/api/digest') {
+    return handleDigest(request, env, ctx);
+  }
+
+  // Route /reddit/api/card to og:image preview cards
+  if (url.pathname === '/reddit/api/card') {
+    return handleOgCard(request, env, ctx);
+  }
+
+  // Route /reddit/api/snapshot to stored snapshots
+  if (url.pathname === '/reddit/api/snapshot') {
+    return handleSnapshot(request, env);
+  }
+
+  // Short links to stored snapshots
+  const snapshotPage = SNAPSHOT_PAGE_RE.exec(url.pathname);
+  if (snapshotPage) {
+    return handleSnapshotPage(request, url, snapshotPage[1], env);
+  }
+
+  // For page requests with ?url=, check if this is a bot requesting OG tags
+  const redditUrl = url.searchParams.get('url');
+  if (redditUrl) {
+    const ua = request.headers.get('User-Agent') || '';
+    if (isCrawler(ua)) {
+      return handleOgPreview(redditUrl, request, env, ctx);
+    }
+  }
+
+  // Everything else goes to Pages
+  return handlePagesProxy(request, url);
+}
+
 export default {
-  async fetch(request: Request): Promise<Response> {
+  async fetch(request: Request, env: Env, ctx?: ExecutionContext): Promise<Response> {
     const url = new URL(request.url);
 
     if (!url.pathname.startsWith('/reddit')) {
       return fetch(request);
     }
 
-    // Route /reddit/api/fetch to the Reddit proxy
-    if (url.pathname === '/reddit/api/fetch') {
-      return handleRedditProxy(request);
-    }
-
-    // For page requests with ?url=, check if this is a bot requesting OG tags
-    const redditUrl = url.searchParams.get('url');
-    if (redditUrl) {
-      const ua = request.headers.get('User-Agent') || '';
-      if (isCrawler(ua)) {
-        return handleOgPreview(redditUrl);
-      }
-    }
-
-    // Everything else goes to Pages
-    return handlePagesProxy(request, url);
+    const startedAt = Date.now();
+    const requestId = requestIdFor(request);
+    const response = await withRequestId(await routeReddit(request, url, env, ctx), requestId);
+    logEvent({
+      event: 'request',
+      requestId,
+      method: request.method,
+      path: url.pathname,
+      status: response.status,
+      cache: response.headers.get(CACHE_HEADER) ?? undefined,
+      durationMs: Date.now() - startedAt,
+    });
+    return response;
   },
 };
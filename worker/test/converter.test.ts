@@ -0,0 +1,503 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_OPTIONS,
+  METADATA_FIELDS,
+  digestSizeFromParams,
+  digestToMarkdown,
+  filterThread,
+  focusThread,
+  historyToMarkdown,
+  isBot,
+  optionsFromParams,
+  optionsToParams,
+  parseFrontMatterFields,
+  parseHistoryPage,
+  parseThread,
+  selectComments,
+  threadToMarkdown,
+  threadToObsidian,
+  type CommentNode,
+  type ConvertOptions,
+  type Digest,
+} from '../../shared/converter';
+import selfPostJson from './fixtures/self-post.json?raw';
+import selfPostMd from './fixtures/self-post.md?raw';
+import selfPostMetaMd from './fixtures/self-post.meta.md?raw';
+import selfPostFilteredMd from './fixtures/self-post.filtered.md?raw';
+import selfPostBulletsMd from './fixtures/self-post.bullets.md?raw';
+import selfPostHeadingsMd from './fixtures/self-post.headings.md?raw';
+import selfPostFlatMd from './fixtures/self-post.flat.md?raw';
+import selfPostDetailsMd from './fixtures/self-post.details.md?raw';
+import linkPostJson from './fixtures/link-post.json?raw';
+import linkPostMd from './fixtures/link-post.md?raw';
+import continueThreadJson from './fixtures/continue-thread.json?raw';
+import continueThreadMd from './fixtures/continue-thread.md?raw';
+import galleryPostJson from './fixtures/gallery-post.json?raw';
+import galleryPostMd from './fixtures/gallery-post.md?raw';
+import videoPostJson from './fixtures/video-post.json?raw';
+import videoPostMd from './fixtures/video-post.md?raw';
+import pollPostJson from './fixtures/poll-post.json?raw';
+import pollPostMd from './fixtures/poll-post.md?raw';
+import crosspostJson from './fixtures/crosspost.json?raw';
+import crosspostMd from './fixtures/crosspost.md?raw';
+import { REDDIT_JSON } from './helpers';
+
+// Fixtures are trimmed captures of real thread JSON. Each `<name>.md` is the
+// expected markdown for `<name>.json` with default options, and
+// `<name>.<variant>.md` the output for the options listed here.
+const ALL_METADATA: ConvertOptions = { ...DEFAULT_OPTIONS, metadata: [...METADATA_FIELDS] };
+
+const ALL_FILTERS: ConvertOptions = {
+  ...DEFAULT_OPTIONS,
+  excludeBots: true,
+  excludeDeleted: true,
+  minScore: 10,
+  maxDepth: 1,
+  topLevelLimit: 1,
+};
+
+const GOLDEN: [string, string, string, ConvertOptions][] = [
+  ['self-post', selfPostJson, selfPostMd, DEFAULT_OPTIONS],
+  ['self-post.meta', selfPostJson, selfPostMetaMd, ALL_METADATA],
+  ['self-post.filtered', selfPostJson, selfPostFilteredMd, ALL_FILTERS],
+  ['self-post.bullets', selfPostJson, selfPostBulletsMd, { ...DEFAULT_OPTIONS, layout: 'bullets' }],
+  ['self-post.headings', selfPostJson, selfPostHeadingsMd, { ...DEFAULT_OPTIONS, layout: 'headings' }],
+  ['self-post.flat', selfPostJson, selfPostFlatMd, { ...DEFAULT_OPTIONS, layout: 'flat' }],
+  ['self-post.details', selfPostJson, selfPostDetailsMd, { ...DEFAULT_OPTIONS, layout: 'details' }],
+  ['link-post', linkPostJson, linkPostMd, DEFAULT_OPTIONS],
+  ['continue-thread', continueThreadJson, continueThreadMd, DEFAULT_OPTIONS],
+  ['gallery-post', galleryPostJson, galleryPostMd, DEFAULT_OPTIONS],
+  ['video-post', videoPostJson, videoPostMd, DEFAULT_OPTIONS],
+  ['poll-post', pollPostJson, pollPostMd, DEFAULT_OPTIONS],
+  ['crosspost', crosspostJson, crosspostMd, DEFAULT_OPTIONS],
+];
+
+// -- Golden files ------------------------------------------------------
+
+describe('golden files', () => {
+  for (const [name, json, md, options] of GOLDEN) {
+    it(`renders ${name} to the expected markdown`, () => {
+      const thread = parseThread(JSON.parse(json));
+      expect(thread).not.toBeNull();
+      expect(threadToMarkdown(thread!, options)).toBe(md);
+    });
+  }
+});
+
+// -- Parsing -----------------------------------------------------------
+
+describe('parseThread', () => {
+  it('parses the minimal proxy fixture', () => {
+    const thread = parseThread(JSON.parse(REDDIT_JSON));
+    expect(thread?.post).toMatchObject({ title: 'Test', author: 'testuser', subreddit: 'test' });
+    expect(thread?.comments).toEqual([]);
+  });
+
+  it('returns null for payloads that are not a thread', () => {
+    expect(parseThread(null)).toBeNull();
+    expect(parseThread({ kind: 'Listing' })).toBeNull();
+    expect(parseThread([])).toBeNull();
+    expect(parseThread([{ kind: 'Listing', data: { children: [] } }])).toBeNull();
+  });
+
+  it('nests replies with their depth', () => {
+    const thread = parseThread(JSON.parse(selfPostJson))!;
+    const [first] = thread.comments;
+    expect(first).toMatchObject({ kind: 'comment', author: 'treewalker', depth: 0 });
+    if (first.kind !== 'comment') throw new Error('expected a comment');
+    expect(first.replies[0]).toMatchObject({ kind: 'comment', author: 'quietcompiler', depth: 1 });
+  });
+
+  it('keeps "load more comments" stubs with their child ids', () => {
+    const thread = parseThread(JSON.parse(selfPostJson))!;
+    const stub = thread.comments[thread.comments.length - 1];
+    expect(stub).toEqual({
+      kind: 'more',
+      id: 'kx1a10',
+      parentId: 't3_1b2c3d',
+      count: 57,
+      childIds: ['kx1a10', 'kx1a11', 'kx1a12', 'kx1a13'],
+      depth: 0,
+    });
+  });
+
+  it('keeps "continue this thread" stubs, which have no child ids', () => {
+    let node = parseThread(JSON.parse(continueThreadJson))!.comments[0];
+    while (node.kind === 'comment') node = node.replies[0];
+    expect(node).toMatchObject({ kind: 'more', id: '_', parentId: 't1_dd0005', count: 0, childIds: [] });
+  });
+
+  it('treats an empty-string replies field as no replies', () => {
+    const thread = parseThread(JSON.parse(selfPostJson))!;
+    const lisp = thread.comments[1];
+    expect(lisp).toMatchObject({ author: 'lambda_lena', replies: [] });
+  });
+});
+
+// -- Post content ------------------------------------------------------
+
+describe('post content', () => {
+  const postOnly = (data: Record<string, unknown>) => parseThread([
+    { kind: 'Listing', data: { children: [{ kind: 't3', data: { title: 'T', author: 'op', ...data } }] } },
+    { kind: 'Listing', data: { children: [] } },
+  ])!;
+
+  it('unescapes gallery URLs and skips media that failed to process', () => {
+    const { post } = parseThread(JSON.parse(galleryPostJson))!;
+    expect(post.images[0]).toEqual({
+      url: 'https://preview.redd.it/a1fog9.jpg?width=4000&format=pjpg&auto=webp&s=1f2e',
+      caption: 'Fog, 6:10am',
+    });
+
+    const failed = postOnly({
+      gallery_data: { items: [{ media_id: 'ok' }, { media_id: 'bad' }] },
+      media_metadata: { ok: { status: 'valid', s: { u: 'https://i.redd.it/ok.png' } }, bad: { status: 'failed' } },
+    });
+    expect(failed.post.images).toEqual([{ url: 'https://i.redd.it/ok.png', caption: '' }]);
+  });
+
+  it('treats a link to an image file as an image post', () => {
+    const md = threadToMarkdown(postOnly({ url: 'https://i.imgur.com/abc.png', is_self: false }));
+    expect(md).toContain('![Image](https://i.imgur.com/abc.png)');
+    expect(md).not.toContain('**Link:**');
+  });
+
+  it('shows when voting ends instead of counts while a poll is open', () => {
+    const md = threadToMarkdown(postOnly({
+      is_self: true,
+      poll_data: {
+        voting_end_timestamp: 1715126400000,
+        total_vote_count: 12,
+        options: [{ id: '1', text: 'Yes' }, { id: '2', text: 'No' }],
+      },
+    }));
+    expect(md).toContain('**Poll** · voting ends 2024-05-08 00:00 UTC\n- Yes\n- No\n');
+  });
+
+  it('does not link self posts to themselves', () => {
+    const md = threadToMarkdown(postOnly({ is_self: true, url: 'https://www.reddit.com/r/x/comments/abc/t/' }));
+    expect(md).toBe('# T\n\n*Posted by u/op*\n\n---\n\n');
+  });
+});
+
+// -- Options -----------------------------------------------------------
+
+describe('options', () => {
+  it('round-trips through query parameters', () => {
+    const options: ConvertOptions = {
+      sort: 'controversial',
+      limit: 200,
+      context: 3,
+      fullThread: true,
+      layout: 'bullets',
+      frontMatter: true,
+      frontMatterFields: [{ key: 'tags', value: '[reddit, notes]' }, { key: 'project', value: 'thesis' }],
+      metadata: ['score', 'permalink'],
+      minScore: -5,
+      maxDepth: 0,
+      topLevelLimit: 20,
+      excludeAuthors: ['AutoModerator', 'some_user'],
+      excludeBots: true,
+      excludeDeleted: true,
+    };
+    expect(optionsFromParams(optionsToParams(options))).toEqual(options);
+  });
+
+  it('ignores unknown metadata fields', () => {
+    const options = optionsFromParams(new URLSearchParams('meta=score,karma,,date'));
+    expect(options.metadata).toEqual(['score', 'date']);
+  });
+
+  it('ignores malformed numbers and strips u/ from excluded authors', () => {
+    const options = optionsFromParams(new URLSearchParams('min_score=abc&top=0&exclude=u/Spez, /u/kn0thing'));
+    expect(options.minScore).toBeNull();
+    expect(options.topLevelLimit).toBe(1);
+    expect(options.excludeAuthors).toEqual(['Spez', 'kn0thing']);
+  });
+
+  it('omits defaults from query parameters', () => {
+    expect(optionsToParams(DEFAULT_OPTIONS).toString()).toBe('');
+  });
+
+  it('falls back to the quote layout for unknown layouts', () => {
+    expect(optionsFromParams(new URLSearchParams('layout=table')).layout).toBe('quote');
+  });
+
+  it('renders metadata links as HTML inside <summary>', () => {
+    const thread = parseThread([
+      { kind: 'Listing', data: { children: [{ kind: 't3', data: { title: 'T', author: 'op' } }] } },
+      { kind: 'Listing', data: { children: [
+        { kind: 't1', data: { author: 'a', body: 'b', score: 2, permalink: '/r/t/comments/x/t/c1/', replies: '' } },
+      ] } },
+    ])!;
+    expect(threadToMarkdown(thread, { ...DEFAULT_OPTIONS, layout: 'details', metadata: ['score', 'permalink'] }))
+      .toContain('<summary><strong>u/a</strong> · 2 points · <a href="https://www.reddit.com/r/t/comments/x/t/c1/">permalink</a></summary>');
+  });
+
+  it('spells out heading levels past six', () => {
+    let node: Record<string, unknown> = { author: 'deepest', body: 'end', replies: '' };
+    for (let i = 6; i >= 0; i--) {
+      node = { author: `d${i}`, body: 'x', replies: { kind: 'Listing', data: { children: [{ kind: 't1', data: node }] } } };
+    }
+    const thread = parseThread([
+      { kind: 'Listing', data: { children: [{ kind: 't3', data: { title: 'T', author: 'op' } }] } },
+      { kind: 'Listing', data: { children: [{ kind: 't1', data: node }] } },
+    ])!;
+    const md = threadToMarkdown(thread, { ...DEFAULT_OPTIONS, layout: 'headings' });
+    expect(md).toContain('###### u/d4\n');
+    expect(md).toContain('###### u/d5 (level 6)\n');
+    expect(md).toContain('###### u/deepest (level 8)\n');
+  });
+
+  it('marks hidden scores instead of showing 0 points', () => {
+    const thread = parseThread([
+      { kind: 'Listing', data: { children: [{ kind: 't3', data: { title: 'T', author: 'op' } }] } },
+      { kind: 'Listing', data: { children: [
+        { kind: 't1', data: { author: 'a', body: 'b', score: 1, score_hidden: true, replies: '' } },
+      ] } },
+    ])!;
+    expect(threadToMarkdown(thread, { ...DEFAULT_OPTIONS, metadata: ['score'] }))
+      .toContain('**u/a** · score hidden\nb');
+  });
+});
+
+// -- Front matter ----------------------------------------------------
+
+describe('front matter', () => {
+  const FRONT = { ...DEFAULT_OPTIONS, frontMatter: true };
+
+  it('describes the thread in YAML before the title', () => {
+    const thread = { ...parseThread(JSON.parse(selfPostJson))!, retrievedUtc: 1709337600 };
+    expect(threadToMarkdown(thread, FRONT)).toMatch(new RegExp(`^${[
+      '---',
+      'title: "What finally made recursion click for you\\?"',
+      'source: https://www.reddit.com/r/programming/comments/1b2c3d/what_finally_made_recursion_click_for_you/',
+      'subreddit: programming',
+      'author: quietcompiler',
+      'posted: 2024-03-01T00:00:00Z',
+      'score: 1843',
+      'comments: 212',
+      'retrieved: 2024-03-02T00:00:00Z',
+      '---',
+      '',
+      '# What finally',
+    ].join('\n')}`));
+  });
+
+  it('adds extra keys as written, replacing built-in keys of the same name', () => {
+    const md = threadToMarkdown(parseThread(JSON.parse(selfPostJson))!, {
+      ...FRONT,
+      frontMatterFields: [{ key: 'tags', value: '[reddit, teaching]' }, { key: 'author', value: 'me' }],
+    });
+    const yaml = md.slice(0, md.indexOf('\n---\n'));
+    expect(yaml).toContain('\ntags: [reddit, teaching]');
+    expect(yaml).toContain('\nauthor: me');
+    expect(yaml).not.toContain('author: quietcompiler');
+    // Without a retrieval time there's no `retrieved` key
+    expect(yaml).not.toContain('retrieved:');
+  });
+
+  it('quotes values YAML would misread', () => {
+    const thread = parseThread([
+      { kind: 'Listing', data: { children: [{ kind: 't3', data: { title: 'yes', author: 'null', subreddit: 'a b' } }] } },
+      { kind: 'Listing', data: { children: [] } },
+    ])!;
+    const md = threadToMarkdown(thread, FRONT);
+    expect(md).toContain('title: "yes"\nsubreddit: "a b"\nauthor: "null"\n');
+  });
+
+  it('is added to Obsidian exports too', () => {
+    expect(threadToObsidian(parseThread(JSON.parse(selfPostJson))!, FRONT)).toMatch(/^---\ntitle: /);
+  });
+
+  it('parses extra key lines, skipping malformed ones', () => {
+    expect(parseFrontMatterFields(['tags: [a, b]', 'no colon', 'bad key: x', ' status :  draft ', 'tags: c'])).toEqual([
+      { key: 'status', value: 'draft' },
+      { key: 'tags', value: 'c' },
+    ]);
+  });
+
+  it('drops values with line breaks, which would end the front matter early', () => {
+    const options = optionsFromParams(new URLSearchParams({ front: '1', fm: 'tags: x\n---\nevil: 1' }));
+    expect(options.frontMatterFields).toEqual([]);
+    expect(parseFrontMatterFields(['a: 1\r', 'b: 2'])).toEqual([{ key: 'b', value: '2' }]);
+
+    const md = threadToMarkdown(parseThread(JSON.parse(selfPostJson))!, options);
+    expect(md).not.toContain('evil');
+  });
+});
+
+// -- Focus -----------------------------------------------------------
+
+describe('focusThread', () => {
+  const thread = () => parseThread(JSON.parse(selfPostJson))!;
+  const outline = (nodes: CommentNode[]): string[] => nodes.flatMap(node =>
+    node.kind === 'comment' ? [`${node.depth}:${node.id}`, ...outline(node.replies)] : [`${node.depth}:more`],
+  );
+
+  it('keeps only the comment and its replies, re-based to depth 0', () => {
+    const focused = focusThread(thread(), 'kx1b02', 0)!;
+    expect(outline(focused.comments)).toEqual(['0:kx1b02', '1:kx1c03', '1:more']);
+    expect(focused.focus).toEqual({ commentId: 'kx1b02', parents: 0 });
+  });
+
+  it('keeps up to `context` parents without their other replies', () => {
+    const focused = focusThread(thread(), 'kx1b02', 1)!;
+    // treewalker's other reply, [deleted] kx1b07, is dropped
+    expect(outline(focused.comments)).toEqual(['0:kx1a01', '1:kx1b02', '2:kx1c03', '2:more']);
+    expect(focusThread(thread(), 'kx1b02', 8)!.focus).toEqual({ commentId: 'kx1b02', parents: 1 });
+  });
+
+  it('returns null when the comment is not in the thread', () => {
+    expect(focusThread(thread(), 'nope00', 0)).toBeNull();
+  });
+
+  it('notes the focus and links the full discussion', () => {
+    const md = threadToMarkdown(focusThread(thread(), 'kx1c03', 2)!);
+    expect(md).toContain(
+      '---\n\n*A single comment thread, with 2 parent comments for context. '
+      + '[View the full discussion](https://www.reddit.com/r/programming/comments/1b2c3d/what_finally_made_recursion_click_for_you/)*\n\n'
+      + '**u/treewalker**\n',
+    );
+    expect(md).not.toContain('lambda_lena');
+  });
+});
+
+describe('selectComments', () => {
+  const thread = () => parseThread(JSON.parse(selfPostJson))!;
+  const outline = (nodes: CommentNode[]): string[] => nodes.flatMap(node =>
+    node.kind === 'comment' ? [`${node.depth}:${node.id}`, ...outline(node.replies)] : [`${node.depth}:more`],
+  );
+
+  it('keeps the picked comments and the parents they reply to', () => {
+    const selected = selectComments(thread(), new Set(['kx1c03', 'kx1a08']));
+    // kx1b07 and AutoModerator's kx1a09 aren't picked, and the stubs go too
+    expect(outline(selected.comments)).toEqual(['0:kx1a01', '1:kx1b02', '2:kx1c03', '0:kx1a08']);
+    expect(selected.selection).toEqual({ selected: 2, parents: 2 });
+  });
+
+  it("drops a picked comment's replies unless they're picked as well", () => {
+    expect(outline(selectComments(thread(), new Set(['kx1a01'])).comments)).toEqual(['0:kx1a01']);
+    expect(outline(selectComments(thread(), new Set(['kx1a01', 'kx1c03'])).comments))
+      .toEqual(['0:kx1a01', '1:kx1b02', '2:kx1c03']);
+  });
+
+  it('keeps nothing when no comment in the thread is picked', () => {
+    const selected = selectComments(thread(), new Set(['nope00']));
+    expect(selected.comments).toEqual([]);
+    expect(selected.selection).toEqual({ selected: 0, parents: 0 });
+  });
+
+  it('notes the selection and links the full discussion', () => {
+    const md = threadToMarkdown(selectComments(thread(), new Set(['kx1c03', 'kx1a08'])));
+    expect(md).toContain(
+      '---\n\n*2 selected comments, with 2 parent comments for context. '
+      + '[View the full discussion](https://www.reddit.com/r/programming/comments/1b2c3d/what_finally_made_recursion_click_for_you/)*\n\n',
+    );
+    expect(md).not.toContain('AutoModerator');
+    expect(threadToMarkdown(selectComments(thread(), new Set(['kx1a08'])))).toContain('*1 selected comment. [View');
+  });
+});
+
+describe('digests', () => {
+  const digest = (comments: number): Digest => ({
+    title: 'Hot in r/programming',
+    subreddit: 'programming',
+    source: 'https://www.reddit.com/r/programming/hot/',
+    threads: [parseThread(JSON.parse(selfPostJson))!],
+    failed: 0,
+    comments,
+  });
+
+  it('reads and caps ?threads= and ?comments=', () => {
+    expect(digestSizeFromParams(new URLSearchParams())).toEqual({ threads: 10, comments: 3 });
+    expect(digestSizeFromParams(new URLSearchParams('threads=100&comments=0'))).toEqual({ threads: 25, comments: 0 });
+    expect(digestSizeFromParams(new URLSearchParams('threads=0&comments=x'))).toEqual({ threads: 1, comments: 3 });
+  });
+
+  it('starts the headings layout below the thread heading', () => {
+    const md = digestToMarkdown(digest(1), { ...DEFAULT_OPTIONS, layout: 'headings' });
+    expect(md).toContain('## 1. What finally made recursion click for you?\n');
+    expect(md).toContain('\n### u/treewalker\n');
+  });
+
+  it('applies the top-level limit and filters within the digest', () => {
+    const md = digestToMarkdown(digest(3), { ...DEFAULT_OPTIONS, topLevelLimit: 1 });
+    expect(md).toContain('**u/treewalker**');
+    expect(md).not.toContain('lambda_lena');
+    // Replies and stickied comments never make the digest
+    expect(md).not.toContain('quietcompiler**');
+    expect(digestToMarkdown(digest(3))).not.toContain('AutoModerator');
+  });
+});
+
+describe('user history', () => {
+  // A page of /user/<name>/submitted lists posts
+  const submitted = () => ({
+    kind: 'Listing',
+    data: { after: null, children: JSON.parse(linkPostJson)[0].data.children },
+  });
+
+  it('parses posts and comments, with the cursor for the next page', () => {
+    expect(parseHistoryPage(submitted())).toMatchObject({ after: null, items: [{ kind: 'post', post: { id: '9zy8xw' } }] });
+    expect(parseHistoryPage({ kind: 'Listing', data: { after: 't1_x', children: [] } })).toEqual({ items: [], after: 't1_x' });
+    expect(parseHistoryPage(JSON.parse(linkPostJson))).toBeNull();
+  });
+
+  it('renders posts with their subreddit, date and counts', () => {
+    const { items } = parseHistoryPage(submitted())!;
+    const md = historyToMarkdown({ username: 'rustacean_news', kind: 'submitted', items, pages: 1, stoppedBy: null });
+    expect(md).toMatch(/^# Posts by u\/rustacean_news\n\n\*1 post from \[u\/rustacean_news\]\(https:\/\/www\.reddit\.com\/user\/rustacean_news\/submitted\/\)\.\*\n/);
+    expect(md).toContain('---\n\n## Announcing the 2024 edition\n\n*r/rust · ');
+    expect(md).toContain(' · 642 points · 0 comments* · [View on Reddit](https://www.reddit.com/r/rust/comments/9zy8xw/announcing_the_2024_edition/)\n\n');
+    expect(md).toContain('**Link:** [blog.rust-lang.org]');
+  });
+});
+
+// -- Filtering ---------------------------------------------------------
+
+describe('filterThread', () => {
+  const thread = () => parseThread(JSON.parse(selfPostJson))!;
+
+  it('removes replies along with a filtered comment and counts them', () => {
+    const { thread: filtered, stats } = filterThread(thread(), { ...DEFAULT_OPTIONS, minScore: 400 });
+    // quietcompiler (301) takes treewalker's reply (188) with it;
+    // [deleted] (12) and AutoModerator (1) go too
+    expect(stats.score).toBe(4);
+    const first = filtered.comments[0];
+    expect(first.kind === 'comment' && first.replies).toEqual([]);
+  });
+
+  it('matches excluded authors case-insensitively', () => {
+    const { stats } = filterThread(thread(), { ...DEFAULT_OPTIONS, excludeAuthors: ['LAMBDA_LENA'] });
+    expect(stats.authors).toBe(1);
+  });
+
+  it('keeps a deleted comment while it still has replies', () => {
+    const withReply = parseThread([
+      { kind: 'Listing', data: { children: [{ kind: 't3', data: { title: 'T', author: 'op' } }] } },
+      { kind: 'Listing', data: { children: [
+        { kind: 't1', data: { author: '[deleted]', body: '[removed]', replies: { kind: 'Listing', data: { children: [
+          { kind: 't1', data: { author: 'a', body: 'still here', replies: '' } },
+        ] } } } },
+      ] } },
+    ])!;
+    const md = threadToMarkdown(withReply, { ...DEFAULT_OPTIONS, excludeDeleted: true });
+    expect(md).toContain('**u/[deleted]**\n[removed]');
+    expect(md).toContain('> still here');
+    expect(md).not.toContain('Filtered out');
+  });
+
+  it('recognises bots by name', () => {
+    expect(isBot('AutoModerator')).toBe(true);
+    expect(isBot('RemindMeBot')).toBe(true);
+    expect(isBot('sneakpeekbot')).toBe(true);
+    expect(isBot('treewalker')).toBe(false);
+  });
+
+  it('does not take names that merely end in "bot" for bots', () => {
+    expect(isBot('converter-bot')).toBe(true);
+    expect(isBot('Some_Bot')).toBe(true);
+    for (const name of ['Talbot', 'Abbot', 'cabot', 'TALBOT']) expect(isBot(name)).toBe(false);
+  });
+});
@@ -0,0 +1,105 @@
+import { SELF, fetchMock } from 'cloudflare:test';
+import { describe, it, expect, beforeAll, afterEach } from 'vitest';
+import { digestUrl, VALID_THREAD } from './helpers';
+import listingJson from './fixtures/listing.json?raw';
+import listingDigestMd from './fixtures/listing.digest.md?raw';
+import selfPostJson from './fixtures/self-post.json?raw';
+import linkPostJson from './fixtures/link-post.json?raw';
+import pollPostJson from './fixtures/poll-post.json?raw';
+
+const LISTING = 'https://www.reddit.com/r/programming/top/?t=week';
+const JSON_HEADERS = { headers: { 'content-type': 'application/json' } };
+
+beforeAll(() => {
+  fetchMock.activate();
+  fetchMock.disableNetConnect();
+});
+
+afterEach(() => fetchMock.assertNoPendingInterceptors());
+
+function mockThread(path: string, body: string) {
+  fetchMock.get('https://www.reddit.com').intercept({ path }).reply(200, body, JSON_HEADERS);
+}
+
+// -- Errors ------------------------------------------------------------
+
+describe('digest endpoint errors', () => {
+  it('returns 400 missing_url when ?url= is absent', async () => {
+    const res = await SELF.fetch('https://peirce.net/reddit/api/digest');
+    expect(res.status).toBe(400);
+    expect(await res.json()).toMatchObject({ error: 'missing_url' });
+  });
+
+  it('returns 400 invalid_path for a thread URL', async () => {
+    const res = await SELF.fetch(digestUrl(VALID_THREAD));
+    expect(res.status).toBe(400);
+    expect(await res.json()).toMatchObject({ error: 'invalid_path' });
+  });
+
+  it('returns 400 invalid_path for an unknown listing sort', async () => {
+    const res = await SELF.fetch(digestUrl('https://www.reddit.com/r/programming/gilded'));
+    expect(res.status).toBe(400);
+    expect(await res.json()).toMatchObject({ error: 'invalid_path' });
+  });
+
+  it('returns 400 host_not_allowed for other hosts', async () => {
+    const res = await SELF.fetch(digestUrl('https://example.com/r/programming'));
+    expect(res.status).toBe(400);
+    expect(await res.json()).toMatchObject({ error: 'host_not_allowed' });
+  });
+
+  it('returns 405 for POST', async () => {
+    const res = await SELF.fetch(digestUrl(LISTING), { method: 'POST' });
+    expect(res.status).toBe(405);
+  });
+
+  it('passes through listing errors as JSON', async () => {
+    fetchMock
+      .get('https://www.reddit.com')
+      .intercept({ path: '/r/programming/hot.json?limit=12' })
+      .reply(429, '', { headers: { 'Retry-After': '30' } });
+
+    const res = await SELF.fetch(digestUrl('https://www.reddit.com/r/programming'));
+    expect(res.status).toBe(429);
+    expect(await res.json()).toMatchObject({ error: 'rate_limited' });
+  });
+
+  it('returns 502 upstream_parse_error when the JSON is not a listing', async () => {
+    mockThread('/r/programming/hot.json?limit=12', '[]');
+
+    const res = await SELF.fetch(digestUrl('https://www.reddit.com/r/programming'));
+    expect(res.status).toBe(502);
+    expect(await res.json()).toMatchObject({ error: 'upstream_parse_error' });
+  });
+});
+
+// -- Happy path --------------------------------------------------------
+
+describe('digest endpoint', () => {
+  it('converts the listing, skipping stickied posts and counting threads that failed', async () => {
+    mockThread('/r/programming/top.json?t=week&limit=12', listingJson);
+    mockThread('/r/programming/comments/1b2c3d/what_finally_made_recursion_click_for_you.json?limit=7&depth=1', selfPostJson);
+    mockThread('/r/rust/comments/9zy8xw/announcing_the_2024_edition.json?limit=7&depth=1', linkPostJson);
+    mockThread('/r/rust/comments/1p0ll5/which_async_runtime_do_you_use_in_production.json?limit=7&depth=1', pollPostJson);
+    fetchMock
+      .get('https://www.reddit.com')
+      .intercept({ path: '/r/programming/comments/1g0n3x/this_thread_was_removed.json?limit=7&depth=1' })
+      .reply(404, '');
+
+    const res = await SELF.fetch(`${digestUrl(LISTING)}&comments=2`);
+    expect(res.status).toBe(200);
+    expect(res.headers.get('content-type')).toBe('text/markdown; charset=utf-8');
+    expect(await res.text()).toBe(listingDigestMd);
+  });
+
+  it('fetches only as many threads as ?threads= asks, with the comment sort and only top-level comments', async () => {
+    mockThread('/r/programming/new.json?limit=3', listingJson);
+    mockThread('/r/programming/comments/1b2c3d/what_finally_made_recursion_click_for_you.json?sort=new&limit=5&depth=1', selfPostJson);
+
+    const res = await SELF.fetch(`${digestUrl('https://old.reddit.com/r/programming/new/')}&threads=1&comments=0&sort=new`);
+    expect(res.status).toBe(200);
+    const md = await res.text();
+    expect(md).toMatch(/^# New in r\/programming\n\n\*1 thread from \[r\/programming\]\(https:\/\/www\.reddit\.com\/r\/programming\/new\/\)\.\*/);
+    expect(md).not.toContain('u/treewalker');
+  });
+});
@@ -1,3 +1,10 @@
 declare module 'cloudflare:test' {
-  interface ProvidedEnv {}
+  type WorkerEnv = import('../src/index').Env;
+  interface ProvidedEnv extends WorkerEnv {}
+}
+
+// Fixture files imported as strings through Vite's `?raw` suffix
+declare module '*?raw' {
+  const content: string;
+  export default content;
 }
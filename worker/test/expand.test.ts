@@ -0,0 +1,157 @@
+import { describe, it, expect } from 'vitest';
+import { parseThread, threadToMarkdown, type CommentNode, type Thread } from '../../shared/converter';
+import { expandThread, type ExpandSource, type ExpandProgress } from '../../shared/expand';
+import selfPostJson from './fixtures/self-post.json?raw';
+import continueThreadJson from './fixtures/continue-thread.json?raw';
+
+function t1(id: string, parent: string, author: string, body: string, replies: unknown[] = []) {
+  return {
+    kind: 't1',
+    data: {
+      id, parent_id: parent, author, body, score: 1, created_utc: 0,
+      permalink: `/r/test/comments/abc/t/${id}/`,
+      replies: replies.length ? { kind: 'Listing', data: { children: replies } } : '',
+    },
+  };
+}
+
+function thingsResponse(things: unknown[]) {
+  return { json: { errors: [], data: { things } } };
+}
+
+/** An ExpandSource that answers from canned responses and records its calls */
+function fakeSource(
+  more: Record<string, unknown> = {},
+  permalinks: Record<string, unknown> = {},
+): ExpandSource & { calls: string[] } {
+  const calls: string[] = [];
+  return {
+    calls,
+    async moreChildren(linkId, ids) {
+      const key = ids.join(',');
+      calls.push(`more ${linkId} ${key}`);
+      if (!(key in more)) throw new Error(`unexpected morechildren ${key}`);
+      return more[key];
+    },
+    async commentThread(permalink) {
+      calls.push(`thread ${permalink}`);
+      if (!(permalink in permalinks)) throw new Error(`unexpected permalink ${permalink}`);
+      return permalinks[permalink];
+    },
+  };
+}
+
+function authors(nodes: CommentNode[]): string[] {
+  return nodes.flatMap(node =>
+    node.kind === 'comment' ? [`${node.depth}:${node.author}`, ...authors(node.replies)] : [`${node.depth}:more`],
+  );
+}
+
+const selfPost = () => parseThread(JSON.parse(selfPostJson)) as Thread;
+
+describe('expandThread', () => {
+  it('splices "load more" results in place of their stub, nested by parent_id', async () => {
+    const source = fakeSource({
+      'kx1c04,kx1c05,kx1c06': thingsResponse([
+        t1('kx1c04', 't1_kx1b02', 'alpha', 'a'),
+        t1('kx1c05', 't1_kx1c04', 'beta', 'b'),
+        t1('kx1c06', 't1_kx1b02', 'gamma', 'c'),
+      ]),
+      'kx1a10,kx1a11,kx1a12,kx1a13': thingsResponse([
+        t1('kx1a10', 't3_1b2c3d', 'delta', 'd'),
+      ]),
+    });
+
+    const { thread, error } = await expandThread(selfPost(), source, { maxRequests: 10 });
+    expect(error).toBeUndefined();
+    expect(source.calls).toEqual([
+      'more t3_1b2c3d kx1a10,kx1a11,kx1a12,kx1a13',
+      'more t3_1b2c3d kx1c04,kx1c05,kx1c06',
+    ]);
+    expect(authors(thread.comments)).toEqual([
+      '0:treewalker',
+      '1:quietcompiler',
+      '2:treewalker',
+      '2:alpha',
+      '3:beta',
+      '2:gamma',
+      '1:[deleted]',
+      '0:lambda_lena',
+      '0:AutoModerator',
+      '0:delta',
+    ]);
+    expect(threadToMarkdown(thread)).not.toContain('Not included');
+  });
+
+  it('does not modify the thread it was given', async () => {
+    const original = selfPost();
+    const before = JSON.stringify(original);
+    const source = fakeSource({
+      'kx1c04,kx1c05,kx1c06': thingsResponse([]),
+      'kx1a10,kx1a11,kx1a12,kx1a13': thingsResponse([]),
+    });
+    await expandThread(original, source, { maxRequests: 10 });
+    expect(JSON.stringify(original)).toBe(before);
+  });
+
+  it('resolves "continue this thread" through the parent comment permalink', async () => {
+    const permalink = '/r/AskHistorians/comments/7qq1mn/how_did_medieval_scribes_correct_mistakes/dd0005/';
+    const source = fakeSource({}, {
+      [permalink]: [
+        { kind: 'Listing', data: { children: [{ kind: 't3', data: { id: '7qq1mn', title: 'x' } }] } },
+        { kind: 'Listing', data: { children: [
+          t1('dd0005', 't1_dd0004', 'inkstained', 'Expunctuation', [
+            t1('dd0006', 't1_dd0005', 'curious_reader', 'Neat!'),
+          ]),
+        ] } },
+      ],
+    });
+
+    const { thread } = await expandThread(parseThread(JSON.parse(continueThreadJson))!, source, { maxRequests: 10 });
+    expect(source.calls).toEqual([`thread ${permalink}`]);
+    expect(authors(thread.comments).slice(-2)).toEqual(['4:inkstained', '5:curious_reader']);
+    expect(threadToMarkdown(thread)).toContain('> > > > > **u/curious_reader**\n> > > > > Neat!');
+  });
+
+  it('stops at maxRequests and reports what was left out', async () => {
+    const source = fakeSource({
+      'kx1a10,kx1a11,kx1a12,kx1a13': thingsResponse([t1('kx1a10', 't3_1b2c3d', 'delta', 'd')]),
+    });
+    const progress: ExpandProgress[] = [];
+
+    const { thread } = await expandThread(selfPost(), source, {
+      maxRequests: 1,
+      onProgress: p => progress.push(p),
+    });
+    expect(source.calls).toHaveLength(1);
+    expect(progress).toEqual([{ requests: 1, loaded: 1, remaining: 3 }]);
+    expect(threadToMarkdown(thread)).toContain('*Not included: 3 more comments.*');
+  });
+
+  it('splits stubs with more than 100 ids into batches', async () => {
+    const ids = Array.from({ length: 150 }, (_, i) => `c${i}`);
+    const thread: Thread = {
+      post: { ...selfPost().post, id: 'abc' },
+      comments: [{ kind: 'more', id: 'c0', parentId: 't3_abc', count: 150, childIds: ids, depth: 0 }],
+    };
+    const source = fakeSource({
+      [ids.slice(0, 100).join(',')]: thingsResponse([t1('c0', 't3_abc', 'first', '1')]),
+      [ids.slice(100).join(',')]: thingsResponse([t1('c100', 't3_abc', 'second', '2')]),
+    });
+
+    const { thread: expanded } = await expandThread(thread, source, { maxRequests: 10 });
+    expect(source.calls).toHaveLength(2);
+    expect(authors(expanded.comments)).toEqual(['0:first', '0:second']);
+  });
+
+  it('keeps partial results when a request fails', async () => {
+    const source = fakeSource({
+      'kx1a10,kx1a11,kx1a12,kx1a13': thingsResponse([t1('kx1a10', 't3_1b2c3d', 'delta', 'd')]),
+    });
+
+    const { thread, error } = await expandThread(selfPost(), source, { maxRequests: 10 });
+    expect(error).toBeInstanceOf(Error);
+    expect(authors(thread.comments)).toContain('0:delta');
+    expect(threadToMarkdown(thread)).toContain('*Not included: 3 more comments.*');
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_OPTIONS,
+  parseThread,
+  threadToObsidian,
+  threadToText,
+  type ConvertOptions,
+  type Thread,
+} from '../../shared/converter';
+import { exportFilename, slugify, threadToJson, type JsonComment } from '../../shared/export';
+import selfPostJson from './fixtures/self-post.json?raw';
+import selfPostObsidianMd from './fixtures/self-post.obsidian.md?raw';
+import selfPostTxt from './fixtures/self-post.text.md?raw';
+import pollPostJson from './fixtures/poll-post.json?raw';
+
+const GOLDEN: [string, (thread: Thread, options: ConvertOptions) => string, string][] = [
+  ['self-post.obsidian', threadToObsidian, selfPostObsidianMd],
+  ['self-post.text', threadToText, selfPostTxt],
+];
+
+const selfPost = () => parseThread(JSON.parse(selfPostJson))!;
+
+// -- Golden files ------------------------------------------------------
+
+describe('export golden files', () => {
+  for (const [name, render, expected] of GOLDEN) {
+    it(`renders ${name}`, () => {
+      expect(render(selfPost(), DEFAULT_OPTIONS)).toBe(expected);
+    });
+  }
+});
+
+// -- File names --------------------------------------------------------
+
+describe('slugify', () => {
+  it('lowercases and hyphenates the title', () => {
+    expect(slugify('What finally made recursion click for you?')).toBe('what-finally-made-recursion-click-for-you');
+  });
+
+  it('folds accents and drops everything else outside a-z0-9', () => {
+    expect(slugify('Café — “résumé” tips & tricks!!')).toBe('cafe-resume-tips-tricks');
+  });
+
+  it('cuts long titles at a word boundary', () => {
+    const slug = slugify('word '.repeat(40));
+    expect(slug.length).toBeLessThanOrEqual(80);
+    expect(slug.endsWith('word')).toBe(true);
+  });
+
+  it('falls back when nothing is left', () => {
+    expect(slugify('???')).toBe('reddit-thread');
+  });
+});
+
+describe('exportFilename', () => {
+  it('uses the format extension', () => {
+    expect(exportFilename('Hello World', 'markdown')).toBe('hello-world.md');
+    expect(exportFilename('Hello World', 'html')).toBe('hello-world.html');
+    expect(exportFilename('Hello World', 'text')).toBe('hello-world.txt');
+    expect(exportFilename('Hello World', 'json')).toBe('hello-world.json');
+    expect(exportFilename('Hello World', 'obsidian')).toBe('hello-world.md');
+  });
+});
+
+// -- JSON --------------------------------------------------------------
+
+describe('threadToJson', () => {
+  it('normalises the post', () => {
+    const { version, post, focus } = threadToJson(selfPost(), DEFAULT_OPTIONS);
+    expect(version).toBe(1);
+    expect(focus).toBeNull();
+    expect(post).toMatchObject({
+      id: '1b2c3d',
+      title: 'What finally made recursion click for you?',
+      author: 'quietcompiler',
+      subreddit: 'programming',
+      url: 'https://www.reddit.com/r/programming/comments/1b2c3d/what_finally_made_recursion_click_for_you/',
+      link: null,
+      images: [],
+      video: null,
+      poll: null,
+      crosspost: null,
+    });
+    expect(post.created).toMatch(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.000Z$/);
+  });
+
+  it('nests replies and keeps "load more" stubs', () => {
+    const { comments } = threadToJson(selfPost(), DEFAULT_OPTIONS);
+    const first = comments[0] as JsonComment;
+    expect(first).toMatchObject({ type: 'comment', author: 'treewalker', depth: 0 });
+    expect(first.url).toMatch(/^https:\/\/www\.reddit\.com\/r\/programming\/comments\//);
+    expect((first.replies[0] as JsonComment).author).toBe('quietcompiler');
+    expect(comments.some(node => node.type === 'more')).toBe(true);
+  });
+
+  it('applies filters', () => {
+    const { comments } = threadToJson(selfPost(), { ...DEFAULT_OPTIONS, excludeBots: true, maxDepth: 0 });
+    const authors = comments.flatMap(node => (node.type === 'comment' ? [node.author] : []));
+    expect(authors).not.toContain('AutoModerator');
+    expect(comments.every(node => node.type === 'more' || node.replies.length === 0)).toBe(true);
+  });
+
+  it('reports hidden scores as null and poll end times as ISO dates', () => {
+    const thread = parseThread([
+      { kind: 'Listing', data: { children: [{ kind: 't3', data: {
+        title: 'T', author: 'op', poll_data: { options: [{ text: 'a' }], total_vote_count: 0, voting_end_timestamp: 1700000000000 },
+      } }] } },
+      { kind: 'Listing', data: { children: [
+        { kind: 't1', data: { author: 'a', body: 'b', score: 1, score_hidden: true, replies: '' } },
+      ] } },
+    ])!;
+    const json = threadToJson(thread, DEFAULT_OPTIONS);
+    expect((json.comments[0] as JsonComment).score).toBeNull();
+    expect(json.post.poll!.votingEnds).toBe('2023-11-14T22:13:20.000Z');
+  });
+});
+
+// -- Obsidian and plain text -------------------------------------------
+
+describe('threadToObsidian', () => {
+  it('links authors and puts notes in callouts', () => {
+    const md = threadToObsidian(selfPost(), { ...DEFAULT_OPTIONS, excludeBots: true, metadata: ['score'] });
+    expect(md).toMatch(/^> \[!quote\]\+ \[\[u\/treewalker\]\] · [\d,]+ points?$/m);
+    expect(md).toContain('> [!info]\n> Filtered out 1 comment: 1 by bots.');
+  });
+});
+
+describe('threadToText', () => {
+  it('spells out poll results and metadata links', () => {
+    const text = threadToText(parseThread(JSON.parse(pollPostJson))!, { ...DEFAULT_OPTIONS, metadata: ['permalink'] });
+    expect(text).toContain('Poll · 2,083 votes\n- tokio — 1,843 votes');
+    expect(text).toMatch(/^u\/embedded_ed · https:\/\/www\.reddit\.com\/r\/rust\/comments\/1p0ll5\/\S+\/pp0001\/$/m);
+  });
+});
@@ -3,6 +3,36 @@ export function proxyUrl(redditUrl: string): string {
   return `https://peirce.net/reddit/api/fetch?url=${encodeURIComponent(redditUrl)}`;
 }
 
+/** Build a request URL for the /reddit/api/markdown endpoint */
+export function markdownUrl(redditUrl: string): string {
+  return `https://peirce.net/reddit/api/markdown?url=${encodeURIComponent(redditUrl)}`;
+}
+
+/** Build a request URL for the /reddit/api/digest subreddit digest endpoint */
+export function digestUrl(listingUrl: string): string {
+  return `https://peirce.net/reddit/api/digest?url=${encodeURIComponent(listingUrl)}`;
+}
+
+/** Build a request URL for the /reddit/api/resolve share link endpoint */
+export function resolveUrl(redditUrl: string): string {
+  return `https://peirce.net/reddit/api/resolve?url=${encodeURIComponent(redditUrl)}`;
+}
+
+/** Build a request URL for the /reddit/api/more "load more comments" proxy */
+export function moreUrl(link: string, children: string[]): string {
+  return `https://peirce.net/reddit/api/more?link=${link}&children=${children.join(',')}`;
+}
+
+/** Build a request URL for the /reddit/api/snapshot endpoint, reading one snapshot when given its id */
+export function snapshotUrl(id?: string): string {
+  return `https://peirce.net/reddit/api/snapshot${id === undefined ? '' : `?id=${id}`}`;
+}
+
+/** Build a request URL for the /reddit/api/card og:image endpoint */
+export function cardUrl(redditUrl: string): string {
+  return `https://peirce.net/reddit/api/card?url=${encodeURIComponent(redditUrl)}`;
+}
+
 /** Build a request URL for a Pages-proxied path */
 export function pagesUrl(path: string = '/reddit'): string {
   return `https://peirce.net${path}`;
@@ -0,0 +1,313 @@
+import { SELF, fetchMock } from 'cloudflare:test';
+import { describe, it, expect, beforeAll, afterEach } from 'vitest';
+import { markdownUrl, proxyUrl, VALID_THREAD, REDDIT_JSON } from './helpers';
+import selfPostJson from './fixtures/self-post.json?raw';
+import selfPostMd from './fixtures/self-post.md?raw';
+import selfPostMetaMd from './fixtures/self-post.meta.md?raw';
+import selfPostFilteredMd from './fixtures/self-post.filtered.md?raw';
+import selfPostDetailsMd from './fixtures/self-post.details.md?raw';
+import userCommentsJson from './fixtures/user-comments.json?raw';
+import userCommentsPage2Json from './fixtures/user-comments.page2.json?raw';
+import userCommentsMd from './fixtures/user-comments.md?raw';
+
+beforeAll(() => {
+  fetchMock.activate();
+  fetchMock.disableNetConnect();
+});
+
+afterEach(() => fetchMock.assertNoPendingInterceptors());
+
+// -- Errors ------------------------------------------------------------
+
+describe('markdown endpoint errors', () => {
+  it('returns 400 missing_url when ?url= is absent', async () => {
+    const res = await SELF.fetch('https://peirce.net/reddit/api/markdown');
+    expect(res.status).toBe(400);
+    expect(await res.json()).toMatchObject({ error: 'missing_url' });
+  });
+
+  it('returns 400 invalid_path for a non-thread URL', async () => {
+    const res = await SELF.fetch(markdownUrl('https://www.reddit.com/r/movies'));
+    expect(res.status).toBe(400);
+    expect(await res.json()).toMatchObject({ error: 'invalid_path' });
+  });
+
+  it('returns 405 for POST', async () => {
+    const res = await SELF.fetch(markdownUrl(VALID_THREAD), { method: 'POST' });
+    expect(res.status).toBe(405);
+    expect(await res.json()).toMatchObject({ error: 'method_not_allowed' });
+  });
+
+  it('passes through upstream errors as JSON', async () => {
+    fetchMock
+      .get('https://www.reddit.com')
+      .intercept({ path: '/r/test/comments/abc123/some_title.json' })
+      .reply(429, '', { headers: { 'Retry-After': '30' } });
+
+    const res = await SELF.fetch(markdownUrl(VALID_THREAD));
+    expect(res.status).toBe(429);
+    expect(res.headers.get('content-type')).toBe('application/json');
+    expect(await res.json()).toMatchObject({ error: 'rate_limited' });
+    expect(res.headers.get('Retry-After')).toBe('30');
+  });
+
+  it('returns 502 upstream_parse_error when the JSON is not a thread', async () => {
+    fetchMock
+      .get('https://www.reddit.com')
+      .intercept({ path: '/r/test/comments/abc123/some_title.json' })
+      .reply(200, JSON.stringify({ kind: 'Listing', data: { children: [] } }), {
+        headers: { 'content-type': 'application/json' },
+      });
+
+    const res = await SELF.fetch(markdownUrl(VALID_THREAD));
+    expect(res.status).toBe(502);
+    expect(await res.json()).toMatchObject({ error: 'upstream_parse_error' });
+  });
+});
+
+// -- Happy path --------------------------------------------------------
+
+describe('markdown endpoint', () => {
+  it('returns the converted thread as text/markdown', async () => {
+    fetchMock
+      .get('https://www.reddit.com')
+      .intercept({ path: '/r/programming/comments/1b2c3d/what_finally_made_recursion_click_for_you.json' })
+      .reply(200, selfPostJson, {
+        headers: { 'content-type': 'application/json' },
+      });
+
+    const res = await SELF.fetch(markdownUrl(
+      'https://www.reddit.com/r/programming/comments/1b2c3d/what_finally_made_recursion_click_for_you/',
+    ));
+    expect(res.status).toBe(200);
+    expect(res.headers.get('content-type')).toBe('text/markdown; charset=utf-8');
+    expect(res.headers.get('cache-control')).toBe('public, max-age=60');
+    expect(await res.text()).toBe(selfPostMd);
+  });
+
+  it('applies ?meta= to the comment author lines', async () => {
+    fetchMock
+      .get('https://www.reddit.com')
+      .intercept({ path: '/r/programming/comments/1b2c3d/what_finally_made_recursion_click_for_you.json' })
+      .reply(200, selfPostJson, {
+        headers: { 'content-type': 'application/json' },
+      });
+
+    const res = await SELF.fetch(`${markdownUrl(
+      'https://www.reddit.com/r/programming/comments/1b2c3d/what_finally_made_recursion_click_for_you/',
+    )}&meta=badges,score,date,edited,permalink`);
+    expect(res.status).toBe(200);
+    expect(await res.text()).toBe(selfPostMetaMd);
+  });
+
+  it('applies filter parameters and summarises what they removed', async () => {
+    fetchMock
+      .get('https://www.reddit.com')
+      .intercept({ path: '/r/programming/comments/1b2c3d/what_finally_made_recursion_click_for_you.json' })
+      .reply(200, selfPostJson, {
+        headers: { 'content-type': 'application/json' },
+      });
+
+    const res = await SELF.fetch(`${markdownUrl(
+      'https://www.reddit.com/r/programming/comments/1b2c3d/what_finally_made_recursion_click_for_you/',
+    )}&min_score=10&max_depth=1&top=1&no_bots=1&no_deleted=1`);
+    expect(res.status).toBe(200);
+    expect(await res.text()).toBe(selfPostFilteredMd);
+  });
+
+  it('lays comments out as ?layout= asks', async () => {
+    fetchMock
+      .get('https://www.reddit.com')
+      .intercept({ path: '/r/programming/comments/1b2c3d/what_finally_made_recursion_click_for_you.json' })
+      .reply(200, selfPostJson, {
+        headers: { 'content-type': 'application/json' },
+      });
+
+    const res = await SELF.fetch(`${markdownUrl(
+      'https://www.reddit.com/r/programming/comments/1b2c3d/what_finally_made_recursion_click_for_you/',
+    )}&layout=details`);
+    expect(res.status).toBe(200);
+    expect(await res.text()).toBe(selfPostDetailsMd);
+  });
+
+  it('adds front matter with ?front=1 and extra ?fm= keys', async () => {
+    fetchMock
+      .get('https://www.reddit.com')
+      .intercept({ path: '/r/test/comments/abc123/some_title.json' })
+      .reply(200, REDDIT_JSON, { headers: { 'content-type': 'application/json' } });
+
+    const res = await SELF.fetch(`${markdownUrl(VALID_THREAD)}&front=1&fm=${encodeURIComponent('tags: [reddit]')}`);
+    expect(res.status).toBe(200);
+    const md = await res.text();
+    expect(md).toMatch(/^---\ntitle: Test\n/);
+    expect(md).toMatch(/\nretrieved: \d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}Z\ntags: \[reddit\]\n---\n\n# Test\n/);
+  });
+
+  it('passes ?sort= and ?limit= through to Reddit', async () => {
+    fetchMock
+      .get('https://www.reddit.com')
+      .intercept({ path: '/r/test/comments/abc123/some_title.json', query: { sort: 'new', limit: '25' } })
+      .reply(200, REDDIT_JSON, { headers: { 'content-type': 'application/json' } });
+
+    const res = await SELF.fetch(`${markdownUrl(VALID_THREAD)}&sort=new&limit=25`);
+    expect(res.status).toBe(200);
+  });
+
+  it('converts only the branch of a comment permalink, with ?context= parents', async () => {
+    fetchMock
+      .get('https://www.reddit.com')
+      .intercept({
+        path: '/r/programming/comments/1b2c3d/what_finally_made_recursion_click_for_you/kx1c03.json',
+        query: { context: '1' },
+      })
+      .reply(200, selfPostJson, { headers: { 'content-type': 'application/json' } });
+
+    const res = await SELF.fetch(`${markdownUrl(
+      'https://www.reddit.com/r/programming/comments/1b2c3d/what_finally_made_recursion_click_for_you/kx1c03/',
+    )}&context=1`);
+    expect(res.status).toBe(200);
+    const md = await res.text();
+    expect(md).toContain('*A single comment thread, with 1 parent comment for context.');
+    expect(md).toContain('**u/quietcompiler**\nThe boxes idea');
+    expect(md).toContain('> **u/treewalker**\n> Factorial first');
+    expect(md).not.toContain('Drawing the call stack');
+  });
+
+  it('returns 404 comment_not_found when the permalinked comment is missing', async () => {
+    fetchMock
+      .get('https://www.reddit.com')
+      .intercept({ path: '/r/test/comments/abc123/some_title/zzz999.json' })
+      .reply(200, REDDIT_JSON, { headers: { 'content-type': 'application/json' } });
+
+    const res = await SELF.fetch(markdownUrl(`${VALID_THREAD}/zzz999/`));
+    expect(res.status).toBe(404);
+    expect(await res.json()).toMatchObject({ error: 'comment_not_found' });
+  });
+
+  it('shares the upstream cache with /reddit/api/fetch', async () => {
+    fetchMock
+      .get('https://www.reddit.com')
+      .intercept({ path: '/r/test/comments/abc123/some_title.json' })
+      .reply(200, REDDIT_JSON, {
+        headers: { 'content-type': 'application/json' },
+      });
+
+    const res1 = await SELF.fetch(proxyUrl(VALID_THREAD));
+    expect(res1.status).toBe(200);
+
+    // No second mock — this must be served from the cache
+    const res2 = await SELF.fetch(markdownUrl(VALID_THREAD));
+    expect(res2.status).toBe(200);
+    expect(await res2.text()).toContain('# Test\n\n*Posted by u/testuser*');
+  });
+
+  it('expands "load more" stubs with ?full=1', async () => {
+    const thread = 'https://www.reddit.com/r/programming/comments/1b2c3d/what_finally_made_recursion_click_for_you/';
+    const mock = fetchMock.get('https://www.reddit.com');
+    mock
+      .intercept({ path: '/r/programming/comments/1b2c3d/what_finally_made_recursion_click_for_you.json' })
+      .reply(200, selfPostJson, { headers: { 'content-type': 'application/json' } });
+    mock
+      .intercept({
+        path: '/api/morechildren.json',
+        query: { api_type: 'json', link_id: 't3_1b2c3d', children: 'kx1a10,kx1a11,kx1a12,kx1a13' },
+      })
+      .reply(200, JSON.stringify({ json: { errors: [], data: { things: [
+        { kind: 't1', data: { id: 'kx1a10', parent_id: 't3_1b2c3d', author: 'late_reply', body: 'Found it!', replies: '' } },
+      ] } } }), { headers: { 'content-type': 'application/json' } });
+    mock
+      .intercept({
+        path: '/api/morechildren.json',
+        query: { api_type: 'json', link_id: 't3_1b2c3d', children: 'kx1c04,kx1c05,kx1c06' },
+      })
+      .reply(500, 'Internal Server Error');
+
+    const res = await SELF.fetch(`${markdownUrl(thread)}&full=1`);
+    expect(res.status).toBe(200);
+    const md = await res.text();
+    expect(md).toContain('**u/late_reply**\nFound it!');
+    // The failed batch is reported instead of failing the whole request
+    expect(md).toContain('*Not included: 3 more comments.*');
+  });
+});
+
+// -- User history ------------------------------------------------------
+
+describe('markdown endpoint user history', () => {
+  const USER = 'https://www.reddit.com/user/treewalker/comments/';
+  const JSON_HEADERS = { headers: { 'content-type': 'application/json' } };
+
+  function mockPage(body: string, after?: string) {
+    fetchMock
+      .get('https://www.reddit.com')
+      .intercept({ path: '/user/treewalker/comments.json', query: after ? { limit: '100', after } : { limit: '100' } })
+      .reply(200, body, JSON_HEADERS);
+  }
+
+  it('follows the after cursor until the history ends', async () => {
+    mockPage(userCommentsJson);
+    mockPage(userCommentsPage2Json, 't1_ky2b02');
+
+    const res = await SELF.fetch(markdownUrl('https://reddit.com/u/treewalker/comments'));
+    expect(res.status).toBe(200);
+    expect(res.headers.get('content-type')).toBe('text/markdown; charset=utf-8');
+    expect(await res.text()).toBe(userCommentsMd);
+  });
+
+  it('stops at ?pages= and says so', async () => {
+    mockPage(userCommentsJson);
+
+    const res = await SELF.fetch(`${markdownUrl(USER)}&pages=1`);
+    expect(res.status).toBe(200);
+    const md = await res.text();
+    expect(md).toContain('*2 comments from [u/treewalker]');
+    expect(md).toMatch(/\*Stopped after 1 page; older comments weren't loaded\.\*\n$/);
+  });
+
+  it('keeps the pages that loaded when a later one fails', async () => {
+    mockPage(userCommentsJson);
+    fetchMock
+      .get('https://www.reddit.com')
+      .intercept({ path: '/user/treewalker/comments.json', query: { limit: '100', after: 't1_ky2b02' } })
+      .reply(500, '');
+
+    const res = await SELF.fetch(markdownUrl(USER));
+    expect(res.status).toBe(200);
+    expect(await res.text()).toContain("*Reddit failed after 1 page; older comments weren't loaded.*");
+  });
+
+  it('holds the pages together to the 5 MB response limit', async () => {
+    // Two pages that each fit, but not together
+    const padded = (json: string) => json.replace('"dist"', `"padding": "${'x'.repeat(3 * 1024 * 1024)}", "dist"`);
+    mockPage(padded(userCommentsJson));
+    mockPage(padded(userCommentsPage2Json), 't1_ky2b02');
+
+    const res = await SELF.fetch(markdownUrl(USER));
+    expect(res.status).toBe(200);
+    const md = await res.text();
+    expect(md).toContain('*2 comments from');
+    expect(md).toContain("*Stopped after 1 page at the size limit; older comments weren't loaded.*");
+  });
+
+  it('counts the size limit in bytes, not characters', async () => {
+    // 1.3 M characters of 2 bytes each: under 5 M characters in all, but over 5 MB
+    const padded = (json: string) => json.replace('"dist"', `"padding": "${'\u00e9'.repeat(1.3 * 1024 * 1024)}", "dist"`);
+    mockPage(padded(userCommentsJson));
+    mockPage(padded(userCommentsPage2Json), 't1_ky2b02');
+
+    const res = await SELF.fetch(markdownUrl(USER));
+    expect(res.status).toBe(200);
+    expect(await res.text()).toContain("*Stopped after 1 page at the size limit; older comments weren't loaded.*");
+  });
+
+  it('passes through an error on the first page', async () => {
+    fetchMock
+      .get('https://www.reddit.com')
+      .intercept({ path: '/user/treewalker/comments.json', query: { limit: '100' } })
+      .reply(403, '');
+
+    const res = await SELF.fetch(markdownUrl(USER));
+    expect(res.status).toBe(502);
+    expect(await res.json()).toMatchObject({ error: 'upstream_forbidden' });
+  });
+});
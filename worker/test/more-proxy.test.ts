@@ -0,0 +1,65 @@
+import { SELF, fetchMock } from 'cloudflare:test';
+import { describe, it, expect, beforeAll, afterEach } from 'vitest';
+import { moreUrl } from './helpers';
+
+beforeAll(() => {
+  fetchMock.activate();
+  fetchMock.disableNetConnect();
+});
+
+afterEach(() => fetchMock.assertNoPendingInterceptors());
+
+describe('load-more proxy validation', () => {
+  it('returns 400 missing_params without ?children=', async () => {
+    const res = await SELF.fetch('https://peirce.net/reddit/api/more?link=t3_abc123');
+    expect(res.status).toBe(400);
+    expect(await res.json()).toMatchObject({ error: 'missing_params' });
+  });
+
+  it('returns 400 invalid_params for ids that are not base-36', async () => {
+    const res = await SELF.fetch(moreUrl('t3_abc123', ['def456', '../x']));
+    expect(res.status).toBe(400);
+    expect(await res.json()).toMatchObject({ error: 'invalid_params' });
+  });
+
+  it('returns 400 invalid_params for more than 100 ids', async () => {
+    const ids = Array.from({ length: 101 }, (_, i) => `c${i}`);
+    const res = await SELF.fetch(moreUrl('t3_abc123', ids));
+    expect(res.status).toBe(400);
+    expect(await res.json()).toMatchObject({ error: 'invalid_params' });
+  });
+
+  it('returns 405 for POST', async () => {
+    const res = await SELF.fetch(moreUrl('t3_abc123', ['def456']), { method: 'POST' });
+    expect(res.status).toBe(405);
+  });
+});
+
+describe('load-more proxy', () => {
+  it('fetches /api/morechildren for the given ids', async () => {
+    const body = JSON.stringify({ json: { errors: [], data: { things: [] } } });
+    fetchMock
+      .get('https://www.reddit.com')
+      .intercept({
+        path: '/api/morechildren.json',
+        query: { api_type: 'json', link_id: 't3_abc123', children: 'def456,ghi789' },
+      })
+      .reply(200, body, { headers: { 'content-type': 'application/json' } });
+
+    const res = await SELF.fetch(moreUrl('t3_abc123', ['def456', 'ghi789']));
+    expect(res.status).toBe(200);
+    expect(res.headers.get('content-type')).toBe('application/json');
+    expect(await res.text()).toBe(body);
+  });
+
+  it('maps upstream errors like the thread proxy', async () => {
+    fetchMock
+      .get('https://www.reddit.com')
+      .intercept({ path: '/api/morechildren.json', query: { api_type: 'json', link_id: 't3_abc123', children: 'def456' } })
+      .reply(429, '', { headers: { 'Retry-After': '12' } });
+
+    const res = await SELF.fetch(moreUrl('abc123', ['def456']));
+    expect(res.status).toBe(429);
+    expect(await res.json()).toMatchObject({ error: 'rate_limited' });
+  });
+});
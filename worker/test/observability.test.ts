@@ -0,0 +1,124 @@
+import { env, fetchMock } from 'cloudflare:test';
+import { describe, it, expect, beforeAll, afterEach, vi } from 'vitest';
+import worker from '../src/index';
+import { REDDIT_JSON, VALID_THREAD, markdownUrl, pagesUrl, proxyUrl } from './helpers';
+
+beforeAll(() => {
+  fetchMock.activate();
+  fetchMock.disableNetConnect();
+});
+
+afterEach(() => {
+  fetchMock.assertNoPendingInterceptors();
+  vi.restoreAllMocks();
+});
+
+const JSON_PATH = '/r/test/comments/abc123/some_title.json';
+
+function mockReddit(status: number, body = REDDIT_JSON) {
+  fetchMock
+    .get('https://www.reddit.com')
+    .intercept({ path: JSON_PATH })
+    .reply(status, body, { headers: { 'content-type': 'application/json' } });
+}
+
+/** The JSON log lines written while running `body` */
+async function captureLogs(body: () => Promise<unknown>): Promise<Record<string, unknown>[]> {
+  const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+  await body();
+  return log.mock.calls.map(([line]) => JSON.parse(line as string));
+}
+
+describe('Request IDs', () => {
+  it('puts the request ID on errors, in the header and the body', async () => {
+    const res = await worker.fetch(new Request('https://peirce.net/reddit/api/fetch'), env);
+    expect(res.status).toBe(400);
+    const requestId = res.headers.get('X-Request-Id');
+    expect(requestId).toMatch(/^[0-9a-f-]{36}$/);
+    expect(await res.json()).toMatchObject({ error: 'missing_url', requestId });
+  });
+
+  it('uses the Ray ID when Cloudflare sends one', async () => {
+    const request = new Request('https://peirce.net/reddit/api/fetch', { headers: { 'CF-Ray': '8a1b2c3d4e5f6789-SJC' } });
+    const res = await worker.fetch(request, env);
+    expect(res.headers.get('X-Request-Id')).toBe('8a1b2c3d4e5f6789-SJC');
+    expect(await res.json()).toMatchObject({ requestId: '8a1b2c3d4e5f6789-SJC' });
+  });
+
+  it('tags successful and Pages responses without changing their bodies', async () => {
+    mockReddit(200);
+    const res = await worker.fetch(new Request(proxyUrl(VALID_THREAD)), env);
+    expect(res.headers.get('X-Request-Id')).toBeTruthy();
+    expect(await res.text()).toBe(REDDIT_JSON);
+
+    fetchMock.get('https://r2md.pages.dev').intercept({ path: '/' }).reply(200, '<html>pages</html>');
+    const page = await worker.fetch(new Request(pagesUrl()), env);
+    expect(page.headers.get('X-Request-Id')).toBeTruthy();
+    expect(await page.text()).toBe('<html>pages</html>');
+  });
+});
+
+describe('Cache status and Server-Timing', () => {
+  it('reports a miss, then a hit', async () => {
+    mockReddit(200);
+    const miss = await worker.fetch(new Request(proxyUrl(VALID_THREAD)), env);
+    expect(miss.headers.get('X-R2MD-Cache')).toBe('MISS');
+    expect(miss.headers.get('Server-Timing')).toMatch(/^upstream;dur=\d+, parse;dur=\d+$/);
+
+    const hit = await worker.fetch(new Request(markdownUrl(VALID_THREAD)), env);
+    expect(hit.headers.get('X-R2MD-Cache')).toBe('HIT');
+    expect(hit.headers.get('Server-Timing')).toMatch(/^parse;dur=\d+$/);
+  });
+
+  it('reports a stale copy', async () => {
+    await caches.default.put(new Request(`${VALID_THREAD}.json`), new Response(REDDIT_JSON, {
+      headers: { 'Cache-Control': 'public, max-age=86400', 'X-Retrieved-At': String(Math.floor(Date.now() / 1000) - 3600) },
+    }));
+    mockReddit(503, 'Service Unavailable');
+
+    const res = await worker.fetch(new Request(proxyUrl(VALID_THREAD)), env);
+    expect(res.headers.get('X-R2MD-Cache')).toBe('STALE');
+    expect(res.headers.get('X-R2MD-Stale')).toBe('upstream-error');
+  });
+});
+
+describe('Structured logs', () => {
+  it('logs the upstream status and the response under one request ID', async () => {
+    mockReddit(403, '');
+    const request = new Request(proxyUrl(VALID_THREAD), { headers: { 'CF-Ray': 'abc123-LHR' } });
+
+    const logs = await captureLogs(() => worker.fetch(request, env));
+    expect(logs).toEqual([
+      {
+        event: 'upstream',
+        requestId: 'abc123-LHR',
+        url: `${VALID_THREAD}.json`,
+        status: 403,
+        durationMs: expect.any(Number),
+      },
+      {
+        event: 'request',
+        requestId: 'abc123-LHR',
+        method: 'GET',
+        path: '/reddit/api/fetch',
+        status: 502,
+        durationMs: expect.any(Number),
+      },
+    ]);
+  });
+
+  it('logs the cache status of a hit', async () => {
+    mockReddit(200);
+    await worker.fetch(new Request(proxyUrl(VALID_THREAD)), env);
+
+    const logs = await captureLogs(() => worker.fetch(new Request(proxyUrl(VALID_THREAD)), env));
+    expect(logs).toEqual([expect.objectContaining({ event: 'request', status: 200, cache: 'HIT' })]);
+  });
+
+  it('logs an unreachable upstream with no status', async () => {
+    fetchMock.get('https://www.reddit.com').intercept({ path: JSON_PATH }).replyWithError(new Error('network failure'));
+
+    const logs = await captureLogs(() => worker.fetch(new Request(proxyUrl(VALID_THREAD)), env));
+    expect(logs[0]).toMatchObject({ event: 'upstream', status: null, error: 'unreachable' });
+  });
+});
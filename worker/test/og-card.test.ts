@@ -0,0 +1,127 @@
+import { SELF, fetchMock } from 'cloudflare:test';
+import { describe, it, expect, beforeAll, afterEach } from 'vitest';
+import { parseThread } from '../../shared/converter';
+import { buildCardSvg } from '../src/card';
+import { VALID_THREAD, BOT_UA, cardUrl, pageUrlWithThread } from './helpers';
+
+beforeAll(() => {
+  fetchMock.activate();
+  fetchMock.disableNetConnect();
+});
+
+afterEach(() => fetchMock.assertNoPendingInterceptors());
+
+/** Reddit's JSON for a thread with the given post fields */
+function threadJson(post: Record<string, unknown>): string {
+  return JSON.stringify([
+    { kind: 'Listing', data: { children: [{ kind: 't3', data: { author: 'testuser', subreddit: 'test', ...post } }] } },
+    { kind: 'Listing', data: { children: [] } },
+  ]);
+}
+
+function mockPost(post: Record<string, unknown>) {
+  fetchMock
+    .get('https://www.reddit.com')
+    .intercept({ path: '/r/test/comments/abc123/some_title.json' })
+    .reply(200, threadJson(post), { headers: { 'content-type': 'application/json' } });
+}
+
+/** The card's SVG for a post with the given fields */
+function cardSvg(post: Record<string, unknown>): string {
+  return buildCardSvg(parseThread(JSON.parse(threadJson(post)))!.post);
+}
+
+/** The lines of the card's title */
+function titleLines(svg: string): string[] {
+  return [...svg.matchAll(/<tspan[^>]*>([^<]*)<\/tspan>/g)].map(match => match[1]);
+}
+
+/** Width and height from a PNG's header chunk */
+function pngSize(png: Uint8Array): { width: number; height: number } {
+  const view = new DataView(png.buffer, png.byteOffset);
+  return { width: view.getUint32(16), height: view.getUint32(20) };
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+describe('OG card image', () => {
+  it('serves the card as a 1200x630 PNG', async () => {
+    mockPost({ title: 'What finally made recursion click?', score: 1234, num_comments: 56 });
+
+    const res = await SELF.fetch(cardUrl(VALID_THREAD));
+    expect(res.status).toBe(200);
+    expect(res.headers.get('content-type')).toBe('image/png');
+    const png = new Uint8Array(await res.arrayBuffer());
+    expect([...png.slice(0, 8)]).toEqual(PNG_SIGNATURE);
+    expect(pngSize(png)).toEqual({ width: 1200, height: 630 });
+  });
+
+  it('draws a title with markup in it', async () => {
+    mockPost({ title: '<script>alert("x")</script> & friends', author: 'a<b>' });
+
+    const res = await SELF.fetch(cardUrl(VALID_THREAD));
+    expect(res.status).toBe(200);
+    expect([...new Uint8Array(await res.arrayBuffer()).slice(0, 8)]).toEqual(PNG_SIGNATURE);
+  });
+
+  it('rejects URLs that are not threads', async () => {
+    const res = await SELF.fetch(cardUrl('https://example.com/r/test/comments/abc123/some_title'));
+    expect(res.status).toBe(400);
+    expect(await res.json()).toMatchObject({ error: 'host_not_allowed' });
+
+    const user = await SELF.fetch(cardUrl('https://www.reddit.com/user/spez/comments'));
+    expect(user.status).toBe(400);
+    expect(await user.json()).toMatchObject({ error: 'invalid_path' });
+  });
+
+  it('is linked from the OG tags as a large image', async () => {
+    mockPost({ title: 'Test' });
+
+    const html = await (await SELF.fetch(pageUrlWithThread(VALID_THREAD), { headers: { 'User-Agent': BOT_UA } })).text();
+    const canonical = 'https://www.reddit.com/r/test/comments/abc123/some_title/';
+    expect(html).toContain(`<meta property="og:image" content="${cardUrl(canonical).replace(/&/g, '&amp;')}">`);
+    expect(html).toContain('<meta property="og:image:type" content="image/png">');
+    expect(html).toContain('<meta name="twitter:card" content="summary_large_image">');
+  });
+});
+
+describe('OG card layout', () => {
+  it('draws the title, subreddit, author, score and comment count', () => {
+    const svg = cardSvg({ title: 'What finally made recursion click?', score: 1234, num_comments: 56 });
+    expect(svg).toMatch(/^<svg xmlns="http:\/\/www\.w3\.org\/2000\/svg" width="1200" height="630"/);
+    expect(titleLines(svg)).toEqual(['What finally made recursion', 'click?']);
+    expect(svg).toContain('>R/TEST<');
+    expect(svg).toContain('>u/testuser<');
+    expect(svg).toContain('>\u25B2 1.2K POINTS \u00b7 56 COMMENTS<');
+  });
+
+  it('escapes markup in the title and author', () => {
+    const svg = cardSvg({ title: '<script>alert("x")</script> & friends', author: 'a<b>' });
+    expect(svg).not.toContain('<script>');
+    expect(svg).not.toContain('<b>');
+    expect(titleLines(svg).join(' ')).toBe('&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt; &amp; friends');
+    expect(svg).toContain('>u/a&lt;b&gt;<');
+  });
+
+  it('wraps a long title to four lines and ends it with an ellipsis', () => {
+    const lines = titleLines(cardSvg({ title: 'The quick brown fox jumps over the lazy dog '.repeat(6).trim() }));
+    expect(lines).toHaveLength(4);
+    for (const line of lines) expect(line.length).toBeLessThanOrEqual(30);
+    expect(lines[0]).toBe('The quick brown fox jumps over');
+    expect(lines[3].endsWith('\u2026')).toBe(true);
+  });
+
+  it('leaves out characters the fonts cannot draw', () => {
+    const svg = cardSvg({ title: '\uFF26\uFF55\uFF4C\uFF4C\uFF57\uFF49\uFF44\uFF54\uFF48 \uFB01x \u65E5\u672C\u8A9E \u{1F680} Caf\u00e9 \u0416\u0438\u0437\u043d\u044c' });
+    expect(titleLines(svg)).toEqual(['Fullwidth fix Caf\u00e9 \u0416\u0438\u0437\u043d\u044c']);
+  });
+
+  it('falls back to a generic title when none of it can be drawn', () => {
+    expect(titleLines(cardSvg({ title: '\u65E5\u672C\u8A9E \u{1F680}' }))).toEqual(['Reddit Thread']);
+  });
+
+  it('breaks a word too long for one line', () => {
+    const lines = titleLines(cardSvg({ title: `Supercalifragilistic${'expialidocious'.repeat(3)} indeed` }));
+    expect(lines).toEqual(['Supercalifragilisticexpialidoc', 'iousexpialidociousexpialidocio', 'us indeed']);
+  });
+});
@@ -1,6 +1,7 @@
 import { SELF, fetchMock } from 'cloudflare:test';
 import { describe, it, expect, beforeAll } from 'vitest';
 import { VALID_THREAD, REDDIT_JSON, pageUrlWithThread, BOT_UA, BROWSER_UA } from './helpers';
+import selfPostJson from './fixtures/self-post.json?raw';
 
 beforeAll(() => {
   fetchMock.activate();
@@ -28,6 +29,26 @@ describe('OG preview for crawlers', () => {
     expect(html).toContain('u/testuser in r/test');
   });
 
+  it('describes the focused comment for a comment permalink', async () => {
+    fetchMock
+      .get('https://www.reddit.com')
+      .intercept({ path: '/r/programming/comments/1b2c3d/what_finally_made_recursion_click_for_you/kx1b02.json' })
+      .reply(200, selfPostJson, {
+        headers: { 'content-type': 'application/json' },
+      });
+
+    const res = await SELF.fetch(pageUrlWithThread(
+      'https://www.reddit.com/r/programming/comments/1b2c3d/what_finally_made_recursion_click_for_you/kx1b02/',
+    ), {
+      headers: { 'User-Agent': BOT_UA },
+    });
+
+    expect(res.status).toBe(200);
+    const html = await res.text();
+    expect(html).toContain('<meta property="og:title" content="u/quietcompiler on \u201cWhat finally made recursion click for you?\u201d">');
+    expect(html).toContain('<meta property="og:description" content="The boxes idea is great.');
+  });
+
   it('serves OG response from cache on second bot request', async () => {
     const cacheThread = 'https://www.reddit.com/r/cached/comments/def456/cached_thread';
     fetchMock
@@ -70,6 +91,9 @@ describe('OG preview for crawlers', () => {
     expect(html).toContain('og:title');
     expect(html).toContain('Reddit Thread');
     expect(html).toContain('Convert Reddit threads to clean markdown');
+    // No card without a thread to draw
+    expect(html).not.toContain('og:image');
+    expect(html).toContain('<meta name="twitter:card" content="summary">');
   });
 
   it('passes through to Pages for bot UA without ?url=', async () => {
@@ -0,0 +1,135 @@
+import { env, fetchMock } from 'cloudflare:test';
+import { describe, it, expect, beforeAll, afterEach } from 'vitest';
+import worker from '../src/index';
+import { BOT_UA, REDDIT_JSON, cardUrl, markdownUrl, pageUrlWithThread, proxyUrl, resolveUrl } from './helpers';
+
+beforeAll(() => {
+  fetchMock.activate();
+  fetchMock.disableNetConnect();
+});
+
+afterEach(() => fetchMock.assertNoPendingInterceptors());
+
+const threadUrl = (id: string) => `https://www.reddit.com/r/test/comments/${id}/some_title`;
+
+function mockThread(id: string) {
+  fetchMock
+    .get('https://www.reddit.com')
+    .intercept({ path: `/r/test/comments/${id}/some_title.json` })
+    .reply(200, REDDIT_JSON, { headers: { 'content-type': 'application/json' } });
+}
+
+/** Call the Worker as one client with the given limits */
+function fetchAs(ip: string, url: string, limits: { burst: string; perMinute: string }): Promise<Response> {
+  const request = new Request(url, { headers: { 'CF-Connecting-IP': ip } });
+  return worker.fetch(request, { ...env, RATE_LIMIT_BURST: limits.burst, RATE_LIMIT_PER_MINUTE: limits.perMinute });
+}
+
+describe('Rate limiting', () => {
+  it('returns 429 with Retry-After once a client uses up its burst', async () => {
+    const limits = { burst: '2', perMinute: '2' };
+    for (const id of ['aaa111', 'bbb222']) {
+      mockThread(id);
+      expect((await fetchAs('203.0.113.1', proxyUrl(threadUrl(id)), limits)).status).toBe(200);
+    }
+
+    const res = await fetchAs('203.0.113.1', proxyUrl(threadUrl('ccc333')), limits);
+    expect(res.status).toBe(429);
+    // One token back every 30 s
+    expect(res.headers.get('Retry-After')).toBe('30');
+    expect(await res.json()).toEqual({
+      error: 'too_many_requests',
+      message: 'Too many requests \u2014 try again in 30 s',
+      requestId: expect.any(String),
+    });
+  });
+
+  it('does not charge for cache hits', async () => {
+    const limits = { burst: '1', perMinute: '1' };
+    mockThread('aaa111');
+    expect((await fetchAs('203.0.113.1', proxyUrl(threadUrl('aaa111')), limits)).status).toBe(200);
+    expect((await fetchAs('203.0.113.1', proxyUrl(threadUrl('aaa111')), limits)).status).toBe(200);
+
+    expect((await fetchAs('203.0.113.1', proxyUrl(threadUrl('bbb222')), limits)).status).toBe(429);
+  });
+
+  it('keeps a bucket per client IP', async () => {
+    const limits = { burst: '1', perMinute: '1' };
+    mockThread('aaa111');
+    mockThread('bbb222');
+    expect((await fetchAs('203.0.113.1', proxyUrl(threadUrl('aaa111')), limits)).status).toBe(200);
+    expect((await fetchAs('203.0.113.2', proxyUrl(threadUrl('bbb222')), limits)).status).toBe(200);
+
+    expect((await fetchAs('203.0.113.1', proxyUrl(threadUrl('ccc333')), limits)).status).toBe(429);
+  });
+
+  it('limits the markdown endpoint too', async () => {
+    const limits = { burst: '1', perMinute: '1' };
+    mockThread('aaa111');
+    expect((await fetchAs('203.0.113.1', markdownUrl(threadUrl('aaa111')), limits)).status).toBe(200);
+
+    const res = await fetchAs('203.0.113.1', markdownUrl(threadUrl('bbb222')), limits);
+    expect(res.status).toBe(429);
+    expect(res.headers.get('Retry-After')).toBe('60');
+  });
+
+  it('charges each share link redirect', async () => {
+    const limits = { burst: '2', perMinute: '2' };
+    const mock = fetchMock.get('https://www.reddit.com');
+    mock.intercept({ path: '/r/test/s/Aa1' }).reply(302, '', { headers: { Location: 'https://www.reddit.com/r/test/s/Bb2' } });
+    mock.intercept({ path: '/r/test/s/Bb2' }).reply(302, '', { headers: { Location: `${threadUrl('aaa111')}/` } });
+    expect((await fetchAs('203.0.113.1', resolveUrl('https://www.reddit.com/r/test/s/Aa1'), limits)).status).toBe(200);
+
+    // Both tokens went on the two hops, so the next link stops before reaching Reddit
+    const res = await fetchAs('203.0.113.1', resolveUrl('https://www.reddit.com/r/test/s/Cc3'), limits);
+    expect(res.status).toBe(429);
+    expect(await res.json()).toMatchObject({ error: 'too_many_requests' });
+  });
+
+  it('charges crawler previews to a bucket of their own', async () => {
+    const crawl = (id: string) => worker.fetch(
+      new Request(pageUrlWithThread(threadUrl(id)), { headers: { 'CF-Connecting-IP': '203.0.113.1', 'User-Agent': BOT_UA } }),
+      { ...env, RATE_LIMIT_BURST: '1', CRAWLER_RATE_LIMIT_BURST: '2', CRAWLER_RATE_LIMIT_PER_MINUTE: '2' },
+    );
+    for (const id of ['aaa111', 'bbb222']) {
+      mockThread(id);
+      expect(await (await crawl(id)).text()).toContain('<meta property="og:title" content="Test">');
+    }
+
+    // Out of tokens, a crawler gets the generic tags rather than a fetch
+    const res = await crawl('ccc333');
+    expect(res.status).toBe(200);
+    expect(await res.text()).toContain('Reddit Thread');
+
+    // The app's own bucket is untouched
+    mockThread('ddd444');
+    expect((await fetchAs('203.0.113.1', proxyUrl(threadUrl('ddd444')), { burst: '1', perMinute: '1' })).status).toBe(200);
+  });
+
+  it('charges card images to the crawler bucket, drawing included', async () => {
+    const card = (id: string) => worker.fetch(
+      new Request(cardUrl(threadUrl(id)), { headers: { 'CF-Connecting-IP': '203.0.113.1' } }),
+      { ...env, CRAWLER_RATE_LIMIT_BURST: '2', CRAWLER_RATE_LIMIT_PER_MINUTE: '1' },
+    );
+    // A token for the thread and one for drawing the card
+    mockThread('aaa111');
+    expect((await card('aaa111')).status).toBe(200);
+    // A card already drawn from the cached thread is free
+    expect((await card('aaa111')).status).toBe(200);
+
+    // A cached thread still costs its drawing
+    mockThread('bbb222');
+    expect((await fetchAs('203.0.113.1', proxyUrl(threadUrl('bbb222')), { burst: '1', perMinute: '1' })).status).toBe(200);
+    const res = await card('bbb222');
+    expect(res.status).toBe(429);
+    expect(res.headers.get('Retry-After')).toBe('60');
+  });
+
+  it('uses the defaults for invalid settings', async () => {
+    const limits = { burst: '-1', perMinute: 'lots' };
+    for (const id of ['aaa111', 'bbb222', 'ccc333']) {
+      mockThread(id);
+      expect((await fetchAs('203.0.113.1', proxyUrl(threadUrl(id)), limits)).status).toBe(200);
+    }
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { decodeEntities, redditToCommonMark, redditToPlainText, startsWithBlock } from '../../shared/reddit-markdown';
+import { DEFAULT_OPTIONS, parseThread, threadToMarkdown } from '../../shared/converter';
+
+// [case, Reddit markdown (already entity-decoded), expected CommonMark]
+const CASES: [string, string, string][] = [
+  ['plain text', 'Nothing to see here.', 'Nothing to see here.'],
+  ['quotes get a space after each marker', '>quoted\n>>nested', '> quoted\n> > nested'],
+  ['spoilers are labelled', 'The killer is >!the butler!<.', 'The killer is (spoiler: the butler).'],
+  ['spoilers at line start are not quotes', '>!whole line!<', '(spoiler: whole line)'],
+  ['superscript words', 'E = mc^2 and ^^double', 'E = mc<sup>2</sup> and <sup>double</sup>'],
+  ['superscript groups', '^(tiny footnote text)', '<sup>tiny footnote text</sup>'],
+  ['bare URLs keep their ^', 'See https://en.wikipedia.org/wiki/A^B now', 'See https://en.wikipedia.org/wiki/A^B now'],
+  ['link destinations keep their ^', '[x^2](https://a/b^c) and <https://a/d^e>', '[x<sup>2</sup>](https://a/b^c) and <https://a/d^e>'],
+  ['raw HTML is escaped', 'Use <script> or </div>', 'Use \\<script> or \\</div>'],
+  ['entity-like text is escaped', 'Type &amp; to get &', 'Type \\&amp; to get &'],
+  ['comparisons are left alone', 'if a < b && b > c', 'if a < b && b > c'],
+  ['inline code is untouched', 'Run `x^2 <y>` now', 'Run `x^2 <y>` now'],
+  ['fenced code is untouched', '```\n>!x!< ^y <z>\n```', '```\n>!x!< ^y <z>\n```'],
+  ['unclosed fences are closed', '```js\nlet a = 1;', '```js\nlet a = 1;\n```'],
+  ['indented code is untouched', 'Code:\n\n    a ^ b <c>', 'Code:\n\n    a ^ b <c>'],
+  ['author-line lookalikes are escaped', '**u/someone** said this', '\\**u/someone** said this'],
+  ['author-line lookalikes in quotes are escaped', '> **u/someone**\n> hi', '> \\**u/someone**\n> hi'],
+  ['--- separators become * * *', 'Above\n\n---\n\nBelow', 'Above\n\n* * *\n\nBelow'],
+  ['setext headings keep their ---', 'Heading\n---', 'Heading\n---'],
+  ['zero-width-space lines become blank', 'a\n\u200b\nb', 'a\n\nb'],
+  ['lists pass through', '- one\n- two\n\n1. first', '- one\n- two\n\n1. first'],
+  ['tables pass through', '| a | b |\n|---|---|\n| 1 | 2 |', '| a | b |\n|---|---|\n| 1 | 2 |'],
+];
+
+describe('redditToCommonMark', () => {
+  for (const [name, input, expected] of CASES) {
+    it(name, () => {
+      expect(redditToCommonMark(input)).toBe(expected);
+    });
+  }
+});
+
+// [case, Reddit markdown (already entity-decoded), expected plain text]
+const PLAIN_CASES: [string, string, string][] = [
+  ['plain text', 'Nothing to see here.', 'Nothing to see here.'],
+  ['emphasis is dropped', '**bold**, *italic*, ~~struck~~ and __under__', 'bold, italic, struck and under'],
+  ['snake_case is left alone', 'call some_function_name()', 'call some_function_name()'],
+  ['links keep their URL', 'See [the docs](https://example.com/docs)', 'See the docs (https://example.com/docs)'],
+  ['bare links are not doubled', '[https://example.com](https://example.com)', 'https://example.com'],
+  ['headings lose their markers', '## Update', 'Update'],
+  ['spoilers are labelled', 'It was >!the butler!<', 'It was (spoiler: the butler)'],
+  ['superscripts are flattened', 'mc^2 and ^(tiny text)', 'mc2 and tiny text'],
+  ['quotes keep a marker per level', '>quoted\n>>*nested*', '> quoted\n> > nested'],
+  ['code spans lose their backticks only', 'Run `a *b* c`', 'Run a *b* c'],
+  ['fences are dropped, code kept', '```\n**x**\n```', '**x**'],
+  ['escapes are removed', '1\\. not a list \\*really\\*', '1. not a list *really*'],
+];
+
+describe('redditToPlainText', () => {
+  for (const [name, input, expected] of PLAIN_CASES) {
+    it(name, () => {
+      expect(redditToPlainText(input)).toBe(expected);
+    });
+  }
+});
+
+describe('decodeEntities', () => {
+  it('decodes the entities Reddit escapes, once', () => {
+    expect(decodeEntities('&gt; a &amp;&amp; b &lt;3 &amp;amp; &#x200B;&#39;')).toBe('> a && b <3 &amp; \u200b\'');
+  });
+
+  it('leaves unknown entities alone', () => {
+    expect(decodeEntities('&bogus; &#0;')).toBe('&bogus; &#0;');
+  });
+});
+
+describe('startsWithBlock', () => {
+  it('detects block constructs', () => {
+    for (const start of ['> q', '- item', '2. item', '# h', '| a |', '```', '    code', '* * *']) {
+      expect(startsWithBlock(start)).toBe(true);
+    }
+    expect(startsWithBlock('Just text')).toBe(false);
+    expect(startsWithBlock('-not a list')).toBe(false);
+  });
+});
+
+describe('comments in the thread structure', () => {
+  const thread = (body: string) => parseThread([
+    { kind: 'Listing', data: { children: [{ kind: 't3', data: { title: 'Q &amp; A', author: 'op' } }] } },
+    { kind: 'Listing', data: { children: [
+      { kind: 't1', data: { author: 'a', body: 'Top', replies: { kind: 'Listing', data: { children: [
+        { kind: 't1', data: { author: 'b', body, replies: '' } },
+      ] } } } },
+    ] } },
+  ])!;
+
+  it('separates a reply that opens with a quote from its author line', () => {
+    const md = threadToMarkdown(thread('&gt; Top\n\nAgreed &amp; then some.'), DEFAULT_OPTIONS);
+    expect(md).toContain('**u/a**\nTop\n\n> **u/b**\n> \n> > Top\n> \n> Agreed & then some.\n');
+  });
+
+  it('keeps fenced code inside the reply and closes it', () => {
+    const md = threadToMarkdown(thread('```\n&lt;div&gt;'), DEFAULT_OPTIONS);
+    expect(md).toContain('> **u/b**\n> \n> ```\n> <div>\n> ```\n');
+  });
+
+  it('decodes and escapes the title', () => {
+    expect(threadToMarkdown(thread('x'))).toMatch(/^# Q & A\n/);
+  });
+});
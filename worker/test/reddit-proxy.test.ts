@@ -1,5 +1,6 @@
-import { SELF, fetchMock } from 'cloudflare:test';
-import { describe, it, expect, beforeAll, afterEach } from 'vitest';
+import { SELF, env, fetchMock } from 'cloudflare:test';
+import { describe, it, expect, beforeAll, afterEach, vi } from 'vitest';
+import worker from '../src/index';
 import { proxyUrl, VALID_THREAD, REDDIT_JSON } from './helpers';
 
 beforeAll(() => {
@@ -193,6 +194,78 @@ describe('upstream error mapping', () => {
   });
 });
 
+// -- Response size limit -----------------------------------------------
+
+/** A Reddit response whose body arrives in the given chunks, recording how many were read */
+function chunkedReddit(chunks: Uint8Array[], headers: Record<string, string> = {}) {
+  const stream = { pulled: 0, cancelled: false };
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (stream.pulled === chunks.length) return controller.close();
+      controller.enqueue(chunks[stream.pulled++]);
+    },
+    cancel() {
+      stream.cancelled = true;
+    },
+    // Pull only when read, so `pulled` counts the chunks the Worker asked for
+  }, { highWaterMark: 0 });
+  vi.spyOn(globalThis, 'fetch').mockResolvedValueOnce(
+    new Response(body, { headers: { 'content-type': 'application/json', ...headers } }),
+  );
+  return stream;
+}
+
+describe('response size limit', () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  it('counts bytes, not characters', async () => {
+    // 2 bytes per character: under 5 MB of characters, over 5 MB of bytes
+    const body = '\u00e9'.repeat(5 * 512 * 1024 + 1);
+    fetchMock
+      .get('https://www.reddit.com')
+      .intercept({ path: '/r/test/comments/abc123/some_title.json' })
+      .reply(200, body, { headers: { 'content-type': 'application/json' } });
+
+    const res = await SELF.fetch(proxyUrl(VALID_THREAD));
+    expect(res.status).toBe(502);
+    expect(await res.json()).toMatchObject({ error: 'response_too_large' });
+  });
+
+  it('stops reading once the chunks cross the limit', async () => {
+    const chunk = new Uint8Array(1024 * 1024).fill(0x78);
+    const stream = chunkedReddit(Array.from({ length: 8 }, () => chunk));
+
+    const res = await worker.fetch(new Request(proxyUrl(VALID_THREAD)), env);
+    expect(res.status).toBe(502);
+    expect(await res.json()).toMatchObject({ error: 'response_too_large' });
+    expect(stream.pulled).toBe(6);
+    expect(stream.cancelled).toBe(true);
+  });
+
+  it('rejects a declared Content-Length over the limit without reading', async () => {
+    const stream = chunkedReddit([new TextEncoder().encode(REDDIT_JSON)], { 'content-length': String(6 * 1024 * 1024) });
+
+    const res = await worker.fetch(new Request(proxyUrl(VALID_THREAD)), env);
+    expect(res.status).toBe(502);
+    expect(await res.json()).toMatchObject({ error: 'response_too_large' });
+    expect(stream.pulled).toBe(0);
+  });
+
+  it('decodes a multibyte character split between chunks', async () => {
+    const json = JSON.stringify([
+      { kind: 'Listing', data: { children: [{ kind: 't3', data: { title: 'Caf\u00e9 \u{1F600}', author: 'a', subreddit: 'test' } }] } },
+      { kind: 'Listing', data: { children: [] } },
+    ]);
+    const bytes = new TextEncoder().encode(json);
+    const split = bytes.indexOf(0xc3) + 1;
+    chunkedReddit([bytes.slice(0, split), bytes.slice(split)]);
+
+    const res = await worker.fetch(new Request(proxyUrl(VALID_THREAD)), env);
+    expect(res.status).toBe(200);
+    expect(await res.text()).toBe(json);
+  });
+});
+
 // -- Happy path --------------------------------------------------------
 
 describe('happy path', () => {
@@ -258,3 +331,80 @@ describe('happy path', () => {
     expect(body[0].kind).toBe('Listing');
   });
 });
+
+// -- Sort and limit ----------------------------------------------------
+
+describe('sort and limit parameters', () => {
+  it('forwards allow-listed sort and limit to Reddit', async () => {
+    fetchMock
+      .get('https://www.reddit.com')
+      .intercept({ path: '/r/test/comments/abc123/some_title.json', query: { sort: 'top', limit: '50' } })
+      .reply(200, REDDIT_JSON, { headers: { 'content-type': 'application/json' } });
+
+    const res = await SELF.fetch(proxyUrl(`${VALID_THREAD}?limit=50&sort=top`));
+    expect(res.status).toBe(200);
+  });
+
+  it('drops other query parameters and invalid values', async () => {
+    fetchMock
+      .get('https://www.reddit.com')
+      .intercept({ path: '/r/test/comments/abc123/some_title.json' })
+      .reply(200, REDDIT_JSON, { headers: { 'content-type': 'application/json' } });
+
+    const res = await SELF.fetch(proxyUrl(`${VALID_THREAD}/?utm_source=share&sort=random&limit=-3`));
+    expect(res.status).toBe(200);
+  });
+
+  it('sends "best" as Reddit\'s confidence sort and caps limit at 500', async () => {
+    fetchMock
+      .get('https://www.reddit.com')
+      .intercept({ path: '/r/test/comments/abc123/some_title.json', query: { sort: 'confidence', limit: '500' } })
+      .reply(200, REDDIT_JSON, { headers: { 'content-type': 'application/json' } });
+
+    const res = await SELF.fetch(proxyUrl(`${VALID_THREAD}?sort=best&limit=9999`));
+    expect(res.status).toBe(200);
+  });
+
+  it('caches each sort separately', async () => {
+    const newJson = REDDIT_JSON.replace('"Test"', '"Sorted by new"');
+    const topJson = REDDIT_JSON.replace('"Test"', '"Sorted by top"');
+    const mock = fetchMock.get('https://www.reddit.com');
+    mock
+      .intercept({ path: '/r/test/comments/abc123/some_title.json', query: { sort: 'new' } })
+      .reply(200, newJson, { headers: { 'content-type': 'application/json' } });
+    mock
+      .intercept({ path: '/r/test/comments/abc123/some_title.json', query: { sort: 'top' } })
+      .reply(200, topJson, { headers: { 'content-type': 'application/json' } });
+
+    const res1 = await SELF.fetch(proxyUrl(`${VALID_THREAD}?sort=new`));
+    expect(await res1.text()).toContain('Sorted by new');
+    const res2 = await SELF.fetch(proxyUrl(`${VALID_THREAD}?sort=top`));
+    expect(await res2.text()).toContain('Sorted by top');
+    // Served from cache: no interceptor is left for a third request
+    const res3 = await SELF.fetch(proxyUrl(`${VALID_THREAD}?sort=new`));
+    expect(await res3.text()).toContain('Sorted by new');
+  });
+});
+
+describe('user history', () => {
+  it('proxies /user/<name>/comments with allow-listed sort, period and cursor', async () => {
+    fetchMock
+      .get('https://www.reddit.com')
+      .intercept({
+        path: '/user/treewalker/submitted.json',
+        query: { sort: 'top', t: 'year', after: 't3_9zy8xw', limit: '100' },
+      })
+      .reply(200, '{"kind":"Listing","data":{"children":[]}}', { headers: { 'content-type': 'application/json' } });
+
+    const res = await SELF.fetch(proxyUrl(
+      'https://www.reddit.com/u/treewalker/submitted/?sort=top&t=year&after=t3_9zy8xw&utm_source=share',
+    ));
+    expect(res.status).toBe(200);
+  });
+
+  it('returns 400 invalid_path for other profile pages', async () => {
+    const res = await SELF.fetch(proxyUrl('https://www.reddit.com/user/treewalker/saved'));
+    expect(res.status).toBe(400);
+    expect(await res.json()).toMatchObject({ error: 'invalid_path' });
+  });
+});
@@ -0,0 +1,132 @@
+import { SELF, fetchMock } from 'cloudflare:test';
+import { describe, it, expect, beforeAll, afterEach } from 'vitest';
+import { markdownUrl, proxyUrl, resolveUrl, REDDIT_JSON } from './helpers';
+
+beforeAll(() => {
+  fetchMock.activate();
+  fetchMock.disableNetConnect();
+});
+
+afterEach(() => fetchMock.assertNoPendingInterceptors());
+
+const SHARE_LINK = 'https://www.reddit.com/r/test/s/Xy12AbC';
+const CANONICAL = 'https://www.reddit.com/r/test/comments/abc123/some_title/';
+
+function redirect(origin: string, path: string, location: string, status = 302) {
+  fetchMock
+    .get(origin)
+    .intercept({ path })
+    .reply(status, '', { headers: { Location: location } });
+}
+
+// -- Host aliases ------------------------------------------------------
+
+describe('host aliases', () => {
+  for (const host of ['reddit.com', 'm.reddit.com', 'new.reddit.com', 'np.reddit.com']) {
+    it(`fetches ${host} threads from www.reddit.com`, async () => {
+      fetchMock
+        .get('https://www.reddit.com')
+        .intercept({ path: '/r/test/comments/abc123/some_title.json' })
+        .reply(200, REDDIT_JSON, { headers: { 'content-type': 'application/json' } });
+
+      const res = await SELF.fetch(proxyUrl(`https://${host}/r/test/comments/abc123/some_title/`));
+      expect(res.status).toBe(200);
+    });
+  }
+
+  it('resolves an alias without any upstream request', async () => {
+    const res = await SELF.fetch(resolveUrl('https://m.reddit.com/r/test/comments/abc123/some_title/?utm_source=share'));
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ url: CANONICAL });
+  });
+});
+
+// -- Share links -------------------------------------------------------
+
+describe('share link resolution', () => {
+  it('follows a /s/ share link to the canonical thread URL', async () => {
+    redirect('https://www.reddit.com', '/r/test/s/Xy12AbC', `${CANONICAL}?share_id=q1w2&utm_medium=android_app`);
+
+    const res = await SELF.fetch(resolveUrl(SHARE_LINK));
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ url: CANONICAL });
+  });
+
+  it('follows a redd.it shortlink through several hops', async () => {
+    redirect('https://redd.it', '/abc123', 'https://www.reddit.com/comments/abc123', 301);
+
+    // /comments/<id> is a thread URL too, so it isn't followed further
+    const res = await SELF.fetch(resolveUrl('https://redd.it/abc123'));
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ url: 'https://www.reddit.com/comments/abc123/' });
+  });
+
+  it('keeps allow-listed query parameters from the final URL', async () => {
+    redirect('https://www.reddit.com', '/r/test/s/Xy12AbC', `${CANONICAL}def456/?context=3&share_id=q1w2`);
+
+    const res = await SELF.fetch(resolveUrl(SHARE_LINK));
+    expect(await res.json()).toEqual({ url: `${CANONICAL}def456/?context=3` });
+  });
+
+  it('resolves share links passed to the fetch proxy and markdown endpoint', async () => {
+    const mock = fetchMock.get('https://www.reddit.com');
+    mock.intercept({ path: '/r/test/s/Xy12AbC' }).reply(302, '', { headers: { Location: CANONICAL } }).times(2);
+    mock
+      .intercept({ path: '/r/test/comments/abc123/some_title.json' })
+      .reply(200, REDDIT_JSON, { headers: { 'content-type': 'application/json' } });
+
+    const res1 = await SELF.fetch(proxyUrl(SHARE_LINK));
+    expect(res1.status).toBe(200);
+    // Second request is served from the cache shared by both endpoints
+    const res2 = await SELF.fetch(markdownUrl(SHARE_LINK));
+    expect(await res2.text()).toContain('# Test');
+  });
+
+  it('returns 400 redirect_not_allowed when a hop leaves Reddit', async () => {
+    redirect('https://www.reddit.com', '/r/test/s/Xy12AbC', 'https://example.com/r/test/comments/abc123/x/');
+
+    const res = await SELF.fetch(resolveUrl(SHARE_LINK));
+    expect(res.status).toBe(400);
+    expect(await res.json()).toMatchObject({ error: 'redirect_not_allowed' });
+  });
+
+  it('returns 502 too_many_redirects after the hop limit', async () => {
+    fetchMock
+      .get('https://www.reddit.com')
+      .intercept({ path: '/r/test/s/Xy12AbC' })
+      .reply(302, '', { headers: { Location: SHARE_LINK } })
+      .times(5);
+
+    const res = await SELF.fetch(resolveUrl(SHARE_LINK));
+    expect(res.status).toBe(502);
+    expect(await res.json()).toMatchObject({ error: 'too_many_redirects' });
+  });
+
+  it('returns 502 unresolved_link when Reddit answers without a redirect', async () => {
+    fetchMock
+      .get('https://www.reddit.com')
+      .intercept({ path: '/r/test/s/Xy12AbC' })
+      .reply(200, '<html></html>', { headers: { 'content-type': 'text/html' } });
+
+    const res = await SELF.fetch(resolveUrl(SHARE_LINK));
+    expect(res.status).toBe(502);
+    expect(await res.json()).toMatchObject({ error: 'unresolved_link' });
+  });
+
+  it('maps an upstream 404 to upstream_error', async () => {
+    fetchMock
+      .get('https://www.reddit.com')
+      .intercept({ path: '/r/test/s/Xy12AbC' })
+      .reply(404, '');
+
+    const res = await SELF.fetch(resolveUrl(SHARE_LINK));
+    expect(res.status).toBe(502);
+    expect(await res.json()).toMatchObject({ error: 'upstream_error' });
+  });
+
+  it('rejects non-Reddit URLs without fetching them', async () => {
+    const res = await SELF.fetch(resolveUrl('https://example.com/r/test/s/Xy12AbC'));
+    expect(res.status).toBe(400);
+    expect(await res.json()).toMatchObject({ error: 'host_not_allowed' });
+  });
+});
@@ -16,6 +16,24 @@ describe('main fetch routing', () => {
     expect(await res.json()).toMatchObject({ error: 'missing_url' });
   });
 
+  it('routes /reddit/api/markdown to the markdown endpoint', async () => {
+    const res = await SELF.fetch('https://peirce.net/reddit/api/markdown');
+    expect(res.status).toBe(400);
+    expect(await res.json()).toMatchObject({ error: 'missing_url' });
+  });
+
+  it('routes /reddit/api/digest to subreddit digests', async () => {
+    const res = await SELF.fetch('https://peirce.net/reddit/api/digest');
+    expect(res.status).toBe(400);
+    expect(await res.json()).toMatchObject({ error: 'missing_url' });
+  });
+
+  it('routes /reddit/api/resolve to share link resolution', async () => {
+    const res = await SELF.fetch('https://peirce.net/reddit/api/resolve');
+    expect(res.status).toBe(400);
+    expect(await res.json()).toMatchObject({ error: 'missing_url' });
+  });
+
   it('routes /reddit to Pages proxy', async () => {
     fetchMock
       .get('https://r2md.pages.dev')
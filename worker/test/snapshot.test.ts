@@ -0,0 +1,197 @@
+import { SELF, env, fetchMock } from 'cloudflare:test';
+import { describe, it, expect, beforeAll, afterEach } from 'vitest';
+import worker from '../src/index';
+import { BOT_UA, BROWSER_UA, VALID_THREAD, cardUrl, pagesUrl, snapshotUrl } from './helpers';
+import selfPostMd from './fixtures/self-post.md?raw';
+
+beforeAll(() => {
+  fetchMock.activate();
+  fetchMock.disableNetConnect();
+});
+
+afterEach(() => fetchMock.assertNoPendingInterceptors());
+
+const SNAPSHOT = {
+  title: 'What finally made recursion click for you?',
+  url: VALID_THREAD,
+  markdown: selfPostMd,
+  layout: 'bullets',
+};
+
+function createSnapshot(body: unknown, init: RequestInit = {}): Promise<Response> {
+  return SELF.fetch(snapshotUrl(), {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+    ...init,
+  });
+}
+
+async function createdId(): Promise<string> {
+  const res = await createSnapshot(SNAPSHOT);
+  expect(res.status).toBe(201);
+  return ((await res.json()) as { id: string }).id;
+}
+
+describe('Snapshot API', () => {
+  it('stores a snapshot in KV and returns its short link', async () => {
+    const res = await createSnapshot(SNAPSHOT);
+    expect(res.status).toBe(201);
+    const body = (await res.json()) as { id: string; url: string; expiresAt: string };
+    expect(body.id).toMatch(/^[A-Za-z0-9]{10}$/);
+    expect(body.url).toBe(`https://peirce.net/reddit/s/${body.id}`);
+
+    const stored = await env.SNAPSHOTS.get<Record<string, unknown>>(`snapshot:${body.id}`, 'json');
+    expect(stored).toMatchObject(SNAPSHOT);
+
+    // Kept for SNAPSHOT_TTL_DAYS from wrangler.toml
+    const days = (Date.parse(body.expiresAt) - Date.now()) / (24 * 60 * 60 * 1000);
+    expect(days).toBeGreaterThan(29.9);
+    expect(days).toBeLessThanOrEqual(30);
+    const { keys } = await env.SNAPSHOTS.list();
+    expect(keys[0].expiration).toBe(Date.parse(body.expiresAt) / 1000);
+  });
+
+  it('returns a stored snapshot by id', async () => {
+    const id = await createdId();
+
+    const res = await SELF.fetch(snapshotUrl(id));
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject(SNAPSHOT);
+  });
+
+  it('returns 404 for unknown and malformed ids', async () => {
+    for (const id of ['AbCdEfGh12', 'short', '../../etc']) {
+      const res = await SELF.fetch(snapshotUrl(id));
+      expect(res.status).toBe(404);
+      expect(await res.json()).toEqual({ error: 'snapshot_not_found', requestId: expect.any(String) });
+    }
+  });
+
+  it('uses the configured expiry', async () => {
+    const request = new Request(snapshotUrl(), { method: 'POST', body: JSON.stringify(SNAPSHOT) });
+    const res = await worker.fetch(request, { ...env, SNAPSHOT_TTL_DAYS: '2' });
+    const { expiresAt } = (await res.json()) as { expiresAt: string };
+    expect((Date.parse(expiresAt) - Date.now()) / (60 * 60 * 1000)).toBeGreaterThan(47.9);
+  });
+
+  it('falls back to the default expiry for an invalid setting', async () => {
+    const request = new Request(snapshotUrl(), { method: 'POST', body: JSON.stringify(SNAPSHOT) });
+    const res = await worker.fetch(request, { ...env, SNAPSHOT_TTL_DAYS: 'forever' });
+    const { expiresAt } = (await res.json()) as { expiresAt: string };
+    expect((Date.parse(expiresAt) - Date.now()) / (24 * 60 * 60 * 1000)).toBeGreaterThan(29.9);
+  });
+
+  it('rejects a body over the size limit', async () => {
+    const res = await createSnapshot({ ...SNAPSHOT, markdown: 'x'.repeat(1024 * 1024) });
+    expect(res.status).toBe(413);
+    expect(((await res.json()) as { error: string }).error).toBe('snapshot_too_large');
+    expect((await env.SNAPSHOTS.list()).keys).toHaveLength(0);
+  });
+
+  it('counts a streamed body without Content-Length against the size limit', async () => {
+    const chunk = new TextEncoder().encode('x'.repeat(64 * 1024));
+    let sent = 0;
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        if (sent++ < 20) controller.enqueue(chunk);
+        else controller.close();
+      },
+    });
+    const request = new Request(snapshotUrl(), { method: 'POST', body, duplex: 'half' } as RequestInit);
+    expect(request.headers.get('content-length')).toBeNull();
+
+    const res = await worker.fetch(request, env);
+    expect(res.status).toBe(413);
+    expect(((await res.json()) as { error: string }).error).toBe('snapshot_too_large');
+  });
+
+  it('returns 503 snapshot_store_failed when KV rejects the write', async () => {
+    const failingKv = { ...env.SNAPSHOTS, put: () => Promise.reject(new Error('KV PUT failed: 429 Too Many Requests')) };
+    const request = new Request(snapshotUrl(), { method: 'POST', body: JSON.stringify(SNAPSHOT) });
+    const res = await worker.fetch(request, { ...env, SNAPSHOTS: failingKv as unknown as KVNamespace });
+    expect(res.status).toBe(503);
+    expect(await res.json()).toMatchObject({ error: 'snapshot_store_failed', requestId: expect.any(String) });
+  });
+
+  it('limits how many snapshots a client can write', async () => {
+    const post = (body: unknown) => worker.fetch(
+      new Request(snapshotUrl(), { method: 'POST', headers: { 'CF-Connecting-IP': '203.0.113.1' }, body: JSON.stringify(body) }),
+      { ...env, SNAPSHOT_RATE_LIMIT_BURST: '2', SNAPSHOT_RATE_LIMIT_PER_MINUTE: '1' },
+    );
+    // A rejected snapshot isn't charged
+    expect((await post({ ...SNAPSHOT, title: '' })).status).toBe(400);
+    expect((await post(SNAPSHOT)).status).toBe(201);
+    expect((await post(SNAPSHOT)).status).toBe(201);
+
+    const res = await post(SNAPSHOT);
+    expect(res.status).toBe(429);
+    expect(res.headers.get('Retry-After')).toBe('60');
+    expect(await res.json()).toMatchObject({ error: 'too_many_requests' });
+    expect((await env.SNAPSHOTS.list()).keys).toHaveLength(2);
+  });
+
+  it('rejects invalid snapshots', async () => {
+    const invalid = [
+      'not json',
+      '[]',
+      { ...SNAPSHOT, title: '' },
+      { ...SNAPSHOT, title: 'x'.repeat(301) },
+      { ...SNAPSHOT, markdown: ' ' },
+      { ...SNAPSHOT, layout: 'columns' },
+      { ...SNAPSHOT, url: 'https://evil.com/r/test/comments/abc123' },
+      { ...SNAPSHOT, url: 'http://www.reddit.com/r/test/comments/abc123' },
+      { title: SNAPSHOT.title, markdown: SNAPSHOT.markdown },
+    ];
+    for (const body of invalid) {
+      const res = await createSnapshot(body);
+      expect(res.status).toBe(400);
+      expect(((await res.json()) as { error: string }).error).toBe('invalid_snapshot');
+    }
+  });
+
+  it('defaults the layout', async () => {
+    const res = await createSnapshot({ ...SNAPSHOT, layout: undefined });
+    const { id } = (await res.json()) as { id: string };
+    expect(await (await SELF.fetch(snapshotUrl(id))).json()).toMatchObject({ layout: 'quote' });
+  });
+
+  it('rejects other methods', async () => {
+    const res = await SELF.fetch(snapshotUrl(), { method: 'PUT', body: '{}' });
+    expect(res.status).toBe(405);
+  });
+});
+
+describe('Snapshot pages', () => {
+  it('serves the app for a stored snapshot', async () => {
+    const id = await createdId();
+    fetchMock
+      .get('https://r2md.pages.dev')
+      .intercept({ path: `/s/${id}` })
+      .reply(200, '<html>r2md</html>', { headers: { 'content-type': 'text/html' } });
+
+    const res = await SELF.fetch(pagesUrl(`/reddit/s/${id}`), { headers: { 'User-Agent': BROWSER_UA } });
+    expect(res.status).toBe(200);
+    expect(await res.text()).toBe('<html>r2md</html>');
+  });
+
+  it('gives crawlers the snapshot title', async () => {
+    const id = await createdId();
+
+    const res = await SELF.fetch(pagesUrl(`/reddit/s/${id}`), { headers: { 'User-Agent': BOT_UA } });
+    expect(res.status).toBe(200);
+    const html = await res.text();
+    expect(html).toContain('<meta property="og:title" content="What finally made recursion click for you?">');
+    expect(html).toMatch(/og:description" content="Snapshot saved \d{4}-\d{2}-\d{2} — converted to markdown"/);
+    expect(html).toContain(`<meta property="og:url" content="https://peirce.net/reddit/s/${id}">`);
+    const card = cardUrl('https://www.reddit.com/r/test/comments/abc123/some_title/');
+    expect(html).toContain(`<meta property="og:image" content="${card.replace(/&/g, '&amp;')}">`);
+    expect(html).toContain('<meta name="twitter:card" content="summary_large_image">');
+  });
+
+  it('returns 404 for a missing or expired snapshot', async () => {
+    const res = await SELF.fetch(pagesUrl('/reddit/s/AbCdEfGh12'), { headers: { 'User-Agent': BROWSER_UA } });
+    expect(res.status).toBe(404);
+    expect(await res.text()).toContain('doesn’t exist or has expired');
+  });
+});
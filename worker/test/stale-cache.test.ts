@@ -0,0 +1,200 @@
+import { SELF, env, fetchMock, createExecutionContext, waitOnExecutionContext } from 'cloudflare:test';
+import { describe, it, expect, beforeAll, afterEach } from 'vitest';
+import worker from '../src/index';
+import { REDDIT_JSON, VALID_THREAD, markdownUrl, proxyUrl } from './helpers';
+
+beforeAll(() => {
+  fetchMock.activate();
+  fetchMock.disableNetConnect();
+});
+
+afterEach(() => fetchMock.assertNoPendingInterceptors());
+
+const JSON_URL = `${VALID_THREAD}.json`;
+const JSON_PATH = '/r/test/comments/abc123/some_title.json';
+
+const UPDATED_JSON = JSON.stringify([
+  { kind: 'Listing', data: { children: [{ kind: 't3', data: { title: 'Updated', author: 'testuser', subreddit: 'test' } }] } },
+  { kind: 'Listing', data: { children: [] } },
+]);
+
+/** Put a copy of the thread in the edge cache as if Reddit sent it `age` seconds ago */
+async function seedCache(age: number) {
+  const retrievedAt = Math.floor(Date.now() / 1000) - age;
+  await caches.default.put(new Request(JSON_URL), new Response(REDDIT_JSON, {
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'public, max-age=86400',
+      'X-Retrieved-At': String(retrievedAt),
+    },
+  }));
+}
+
+function mockReddit(status: number, body = REDDIT_JSON) {
+  return fetchMock
+    .get('https://www.reddit.com')
+    .intercept({ path: JSON_PATH })
+    .reply(status, body, { headers: { 'content-type': 'application/json' } });
+}
+
+describe('Stale-while-revalidate', () => {
+  it('serves a fresh copy without a marker or a refresh', async () => {
+    await seedCache(10);
+    const res = await worker.fetch(new Request(proxyUrl(VALID_THREAD)), env);
+    expect(res.status).toBe(200);
+    expect(res.headers.get('X-R2MD-Stale')).toBeNull();
+    expect(await res.text()).toBe(REDDIT_JSON);
+  });
+
+  it('serves a recently expired copy and refreshes it in the background', async () => {
+    await seedCache(120);
+    mockReddit(200, UPDATED_JSON);
+
+    const ctx = createExecutionContext();
+    const res = await worker.fetch(new Request(proxyUrl(VALID_THREAD)), env, ctx);
+    expect(res.status).toBe(200);
+    expect(res.headers.get('X-R2MD-Stale')).toBe('revalidating');
+    expect(await res.text()).toBe(REDDIT_JSON);
+    await waitOnExecutionContext(ctx);
+
+    const next = await worker.fetch(new Request(proxyUrl(VALID_THREAD)), env);
+    expect(next.headers.get('X-R2MD-Stale')).toBeNull();
+    expect(await next.text()).toBe(UPDATED_JSON);
+  });
+
+  it('marks stale markdown too', async () => {
+    await seedCache(120);
+    mockReddit(200);
+
+    const ctx = createExecutionContext();
+    const res = await worker.fetch(new Request(markdownUrl(VALID_THREAD)), env, ctx);
+    expect(res.status).toBe(200);
+    expect(res.headers.get('X-R2MD-Stale')).toBe('revalidating');
+    await waitOnExecutionContext(ctx);
+  });
+});
+
+describe('Charging background refreshes', () => {
+  /** Request the thread as one client with a one-token bucket */
+  function fetchAs(url: string, ctx?: ExecutionContext): Promise<Response> {
+    const request = new Request(url, { headers: { 'CF-Connecting-IP': '203.0.113.1' } });
+    return worker.fetch(request, { ...env, RATE_LIMIT_BURST: '1', RATE_LIMIT_PER_MINUTE: '1' }, ctx);
+  }
+
+  it('takes a token for the refresh', async () => {
+    await seedCache(120);
+    mockReddit(200, UPDATED_JSON);
+
+    const ctx = createExecutionContext();
+    expect((await fetchAs(proxyUrl(VALID_THREAD), ctx)).headers.get('X-R2MD-Stale')).toBe('revalidating');
+    await waitOnExecutionContext(ctx);
+
+    const res = await fetchAs(proxyUrl('https://www.reddit.com/r/test/comments/def456/other'));
+    expect(res.status).toBe(429);
+  });
+
+  it('skips the refresh when the client has no tokens left', async () => {
+    fetchMock
+      .get('https://www.reddit.com')
+      .intercept({ path: '/r/test/comments/def456/other.json' })
+      .reply(200, REDDIT_JSON, { headers: { 'content-type': 'application/json' } });
+    expect((await fetchAs(proxyUrl('https://www.reddit.com/r/test/comments/def456/other'))).status).toBe(200);
+    await seedCache(120);
+    mockReddit(200, UPDATED_JSON);
+
+    const ctx = createExecutionContext();
+    expect((await fetchAs(proxyUrl(VALID_THREAD), ctx)).headers.get('X-R2MD-Stale')).toBe('revalidating');
+    await waitOnExecutionContext(ctx);
+
+    // Still the old copy: nothing went to Reddit
+    const res = await fetchAs(proxyUrl(VALID_THREAD));
+    expect(res.headers.get('X-R2MD-Stale')).toBe('revalidating');
+    expect(await res.text()).toBe(REDDIT_JSON);
+
+    // Another client has tokens, so its request refreshes the copy
+    const other = createExecutionContext();
+    await worker.fetch(new Request(proxyUrl(VALID_THREAD), { headers: { 'CF-Connecting-IP': '203.0.113.2' } }), env, other);
+    await waitOnExecutionContext(other);
+  });
+});
+
+describe('Stale on upstream error', () => {
+  it('serves an old copy when Reddit returns 5xx', async () => {
+    await seedCache(3600);
+    mockReddit(503, 'Service Unavailable');
+
+    const res = await worker.fetch(new Request(proxyUrl(VALID_THREAD)), env);
+    expect(res.status).toBe(200);
+    expect(res.headers.get('X-R2MD-Stale')).toBe('upstream-error');
+    expect(await res.text()).toBe(REDDIT_JSON);
+  });
+
+  it('serves an old copy when Reddit rate-limits', async () => {
+    await seedCache(3600);
+    mockReddit(429, '');
+
+    const res = await worker.fetch(new Request(proxyUrl(VALID_THREAD)), env);
+    expect(res.status).toBe(200);
+    expect(res.headers.get('X-R2MD-Stale')).toBe('upstream-error');
+  });
+
+  it('replaces an old copy when Reddit answers', async () => {
+    await seedCache(3600);
+    mockReddit(200, UPDATED_JSON);
+
+    const res = await worker.fetch(new Request(proxyUrl(VALID_THREAD)), env);
+    expect(res.headers.get('X-R2MD-Stale')).toBeNull();
+    expect(await res.text()).toBe(UPDATED_JSON);
+  });
+
+  it('passes a 404 through rather than serving a deleted thread', async () => {
+    await seedCache(3600);
+    mockReddit(404, '');
+
+    const res = await worker.fetch(new Request(proxyUrl(VALID_THREAD)), env);
+    expect(res.status).toBe(502);
+    expect(await res.json()).toMatchObject({ error: 'upstream_error' });
+  });
+
+  it('returns the error once a copy is past the configured window', async () => {
+    await seedCache(3600);
+    mockReddit(503, 'Service Unavailable');
+
+    const res = await worker.fetch(new Request(proxyUrl(VALID_THREAD)), { ...env, STALE_IF_ERROR_SECONDS: '600' });
+    expect(res.status).toBe(502);
+    expect(res.headers.get('X-R2MD-Stale')).toBeNull();
+  });
+});
+
+describe('Request coalescing', () => {
+  it('shares one Reddit request between concurrent misses', async () => {
+    mockReddit(200).delay(50);
+
+    const responses = await Promise.all([1, 2, 3].map(() => worker.fetch(new Request(proxyUrl(VALID_THREAD)), env)));
+    for (const res of responses) {
+      expect(res.status).toBe(200);
+      expect(await res.text()).toBe(REDDIT_JSON);
+    }
+  });
+
+  it('gives every caller the shared error', async () => {
+    mockReddit(503, 'Service Unavailable').delay(50);
+
+    const responses = await Promise.all([1, 2].map(() => worker.fetch(new Request(proxyUrl(VALID_THREAD)), env)));
+    for (const res of responses) {
+      expect(res.status).toBe(502);
+      expect(await res.json()).toMatchObject({ error: 'upstream_error' });
+    }
+  });
+
+  it('gives callers in other requests their own copy of the shared error', async () => {
+    mockReddit(503, 'Service Unavailable').delay(50);
+
+    // Each SELF.fetch is a request of its own, so none can read another's Response
+    const responses = await Promise.all([1, 2, 3].map(() => SELF.fetch(proxyUrl(VALID_THREAD))));
+    for (const res of responses) {
+      expect(res.status).toBe(502);
+      expect(await res.json()).toMatchObject({ error: 'upstream_error' });
+    }
+  });
+});
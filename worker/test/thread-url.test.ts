@@ -0,0 +1,166 @@
+import { describe, it, expect } from 'vitest';
+import {
+  describeHistory,
+  describeListing,
+  focusFromUrl,
+  historyQuery,
+  isShareLink,
+  listingJsonUrl,
+  listingPageUrl,
+  normaliseRedditUrl,
+  parseHistoryUrl,
+  parseListingUrl,
+  threadJsonUrl,
+  threadQuery,
+  withThreadQuery,
+} from '../../shared/thread-url';
+
+const THREAD = 'https://www.reddit.com/r/test/comments/abc123/some_title/';
+
+describe('threadQuery', () => {
+  it('keeps sort and limit in a fixed order', () => {
+    expect(threadQuery(new URLSearchParams('limit=10&sort=new')).toString()).toBe('sort=new&limit=10');
+  });
+
+  it('drops unknown parameters and values', () => {
+    expect(threadQuery(new URLSearchParams('sort=random&limit=ten&utm_source=x')).toString()).toBe('');
+  });
+
+  it('keeps context between 0 and 8', () => {
+    expect(threadQuery(new URLSearchParams('context=0')).toString()).toBe('context=0');
+    expect(threadQuery(new URLSearchParams('context=20')).toString()).toBe('context=8');
+  });
+
+  it('maps best to confidence', () => {
+    expect(threadQuery(new URLSearchParams('sort=best')).get('sort')).toBe('confidence');
+  });
+});
+
+describe('withThreadQuery', () => {
+  it('overrides the pasted sort', () => {
+    expect(withThreadQuery(`${THREAD}?sort=old`, { sort: 'top', limit: null, context: null })).toBe(`${THREAD}?sort=top`);
+  });
+
+  it('keeps the pasted sort when none is chosen', () => {
+    expect(withThreadQuery(`${THREAD}?sort=old`, { sort: null, limit: 20, context: null })).toBe(`${THREAD}?sort=old&limit=20`);
+  });
+
+  it('returns unparseable input unchanged', () => {
+    expect(withThreadQuery('not a url', { sort: 'top', limit: 10, context: 2 })).toBe('not a url');
+  });
+});
+
+describe('threadJsonUrl', () => {
+  it('appends .json before the allow-listed query', () => {
+    expect(threadJsonUrl(`${THREAD}?utm_name=x&sort=qa`))
+      .toBe('https://www.reddit.com/r/test/comments/abc123/some_title.json?sort=qa');
+  });
+});
+
+describe('focusFromUrl', () => {
+  it('finds the comment id in a permalink', () => {
+    expect(focusFromUrl(`${THREAD}def456/`)).toEqual({ commentId: 'def456', context: 0 });
+    expect(focusFromUrl('https://www.reddit.com/r/test/comments/abc123/comment/def456/?context=3'))
+      .toEqual({ commentId: 'def456', context: 3 });
+  });
+
+  it('returns null for a whole thread', () => {
+    expect(focusFromUrl(THREAD)).toBeNull();
+    expect(focusFromUrl('https://www.reddit.com/r/test/comments/abc123')).toBeNull();
+    expect(focusFromUrl('not a url')).toBeNull();
+  });
+});
+
+describe('normaliseRedditUrl', () => {
+  it('moves host aliases onto www', () => {
+    expect(normaliseRedditUrl('https://m.reddit.com/r/test/comments/abc123/x/')).toBe('https://www.reddit.com/r/test/comments/abc123/x/');
+    expect(normaliseRedditUrl('https://reddit.com/r/test/comments/abc123/x/')).toBe('https://www.reddit.com/r/test/comments/abc123/x/');
+  });
+
+  it('leaves old.reddit.com and other input alone', () => {
+    expect(normaliseRedditUrl('https://old.reddit.com/r/test/comments/abc123/x/')).toBe('https://old.reddit.com/r/test/comments/abc123/x/');
+    expect(normaliseRedditUrl('not a url')).toBe('not a url');
+  });
+});
+
+describe('isShareLink', () => {
+  it('recognises redd.it and /s/ links', () => {
+    expect(isShareLink('https://redd.it/abc123')).toBe(true);
+    expect(isShareLink('https://www.reddit.com/r/test/s/Xy12AbC')).toBe(true);
+    expect(isShareLink('https://reddit.com/r/test/s/Xy12AbC/')).toBe(true);
+  });
+
+  it('rejects thread URLs and other hosts', () => {
+    expect(isShareLink(THREAD)).toBe(false);
+    expect(isShareLink('https://example.com/r/test/s/Xy12AbC')).toBe(false);
+    expect(isShareLink('https://i.redd.it/abc123.png')).toBe(false);
+  });
+});
+
+describe('parseListingUrl', () => {
+  it('reads the subreddit, sort and period', () => {
+    expect(parseListingUrl('https://www.reddit.com/r/programming/top/?t=week'))
+      .toEqual({ subreddit: 'programming', sort: 'top', time: 'week' });
+    expect(parseListingUrl('https://old.reddit.com/r/rust/new'))
+      .toEqual({ subreddit: 'rust', sort: 'new', time: null });
+  });
+
+  it('defaults to hot, and drops a period the sort ignores', () => {
+    expect(parseListingUrl('https://reddit.com/r/rust/')).toEqual({ subreddit: 'rust', sort: 'hot', time: null });
+    expect(parseListingUrl('https://www.reddit.com/r/rust/hot?t=week')).toEqual({ subreddit: 'rust', sort: 'hot', time: null });
+    expect(parseListingUrl('https://www.reddit.com/r/rust/top?t=fortnight')).toEqual({ subreddit: 'rust', sort: 'top', time: null });
+  });
+
+  it('returns null for threads, other pages and other hosts', () => {
+    expect(parseListingUrl(THREAD)).toBeNull();
+    expect(parseListingUrl('https://www.reddit.com/r/rust/wiki')).toBeNull();
+    expect(parseListingUrl('https://example.com/r/rust')).toBeNull();
+    expect(parseListingUrl('not a url')).toBeNull();
+  });
+});
+
+describe('listing URLs', () => {
+  const listing = { subreddit: 'programming', sort: 'top', time: 'all' } as const;
+
+  it('builds the page and .json URLs on www', () => {
+    expect(listingPageUrl(listing)).toBe('https://www.reddit.com/r/programming/top/?t=all');
+    expect(listingJsonUrl(listing, 12)).toBe('https://www.reddit.com/r/programming/top.json?t=all&limit=12');
+    expect(listingJsonUrl({ ...listing, sort: 'hot', time: null }, 5)).toBe('https://www.reddit.com/r/programming/hot.json?limit=5');
+  });
+
+  it('describes the listing for a heading', () => {
+    expect(describeListing(listing)).toBe('Top of all time in r/programming');
+    expect(describeListing({ ...listing, time: 'day' })).toBe('Top today in r/programming');
+    expect(describeListing({ ...listing, sort: 'rising', time: null })).toBe('Rising in r/programming');
+  });
+});
+
+describe('parseHistoryUrl', () => {
+  it('reads the user and list from /user/ and /u/ URLs', () => {
+    expect(parseHistoryUrl('https://www.reddit.com/user/spez/comments/')).toEqual({ username: 'spez', kind: 'comments' });
+    expect(parseHistoryUrl('https://old.reddit.com/u/spez/submitted?sort=top')).toEqual({ username: 'spez', kind: 'submitted' });
+  });
+
+  it('returns null for other profile pages and URLs', () => {
+    expect(parseHistoryUrl('https://www.reddit.com/user/spez/')).toBeNull();
+    expect(parseHistoryUrl('https://www.reddit.com/user/spez/saved')).toBeNull();
+    expect(parseHistoryUrl('https://example.com/user/spez/comments')).toBeNull();
+    expect(parseHistoryUrl(THREAD)).toBeNull();
+  });
+
+  it('describes the history for a heading', () => {
+    expect(describeHistory({ username: 'spez', kind: 'comments' })).toBe('Comments by u/spez');
+    expect(describeHistory({ username: 'spez', kind: 'submitted' })).toBe('Posts by u/spez');
+  });
+});
+
+describe('historyQuery', () => {
+  it('keeps sort, period and cursor, and always asks for full pages', () => {
+    expect(historyQuery(new URLSearchParams('after=t1_abc12&t=month&sort=top&limit=5')).toString())
+      .toBe('sort=top&t=month&after=t1_abc12&limit=100');
+  });
+
+  it('drops unknown sorts, periods and cursors', () => {
+    expect(historyQuery(new URLSearchParams('sort=best&t=forever&after=t5_x')).toString()).toBe('limit=100');
+  });
+});